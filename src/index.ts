@@ -12,19 +12,122 @@ export {
 
 export { quickStartDemo } from './quick-start';
 
+export { RouteAnalyzer } from './ngperf/route-analyzer';
+export type { RouteAnalysis, RouteNode } from './ngperf/route-analyzer';
+
+export { ResourceLeakAnalyzer } from './ngperf/resource-leak-analyzer';
+export { ZoneAnalyzer } from './ngperf/zone-analyzer';
+export { ZonelessAnalyzer } from './ngperf/zoneless-analyzer';
+export { ControlFlowMigrator } from './ngperf/control-flow-migrator';
+export type { ControlFlowMigration } from './ngperf/control-flow-migrator';
+export { createUnifiedDiff } from './ngperf/text-diff';
+export { planAutofixes, applyTextEdits, addNamedImports } from './ngperf/autofix';
+export type { AutofixPlan } from './ngperf/autofix';
+export { loadRules, BUILT_IN_RULES } from './ngperf/rules';
+export type {
+  Rule,
+  RuleCategory,
+  RuleContext,
+  RuleFinding,
+  RuleSeverity,
+  BuiltInRuleId,
+  CustomRuleId
+} from './ngperf/rules';
+export { ProjectConfig, DEFAULT_THRESHOLDS, matchesGlob } from './ngperf/config';
+export type {
+  NgperfConfig,
+  ConfigOverride,
+  RuleSetting,
+  Thresholds,
+  ThresholdsConfig
+} from './ngperf/config';
+export { parseSuppressions, findSuppression } from './ngperf/suppressions';
+export type { Suppression, SuppressionProblem } from './ngperf/suppressions';
+export { Baseline } from './ngperf/baseline';
+export type { BaselineEntry, BaselineComparison } from './ngperf/baseline';
+
+export { ComponentGraphBuilder } from './ngperf/component-graph';
+export type {
+  ComponentGraph,
+  ComponentGraphNode,
+  ComponentGraphEdge,
+  ComponentGraphFinding,
+  OnPushCandidate,
+  TemplateElementUsage
+} from './ngperf/component-graph';
+
+export { BundleStats, formatBytes } from './ngperf/bundle-stats';
+export type {
+  BundleChunk,
+  BundleModule,
+  BundlePackage,
+  BundleFileSize,
+  BundleStatsSummary
+} from './ngperf/bundle-stats';
+
+export {
+  TemplateParser,
+  walkTemplate,
+  findCallExpressions,
+  splitPipes,
+  findPipeUsages,
+  findPropertyReads
+} from './ngperf/template-parser';
+
 // Optional attribution helper
 export { LicenseChecker } from './license-checker';
 export type { AttributionInfo } from './license-checker';
 
 export type {
   ComponentAnalysis,
+  AngularClassKind,
+  PipeInfo,
   ChangeDetectionProblem,
   TemplatePerformanceIssue,
   SubscriptionIssue,
+  SignalIssue,
+  ZoneIssue,
+  ChangeDetectionProblemType,
+  TemplateIssueType,
+  SubscriptionIssueType,
+  SignalIssueType,
+  ZoneIssueType,
+  ZoneChangeDetection,
+  ZonelessBlocker,
+  ZonelessReadiness,
+  ZonelessVerdict,
   BundleOptimization,
   OptimizationRecommendation,
   CodeLocation,
   ComponentInfo,
   ComponentMetadata,
-  ProjectSummary
+  ComponentInput,
+  ComponentOutput,
+  HostBinding,
+  ApiDeclarationSource,
+  ProjectSummary,
+  AnalysisOptions,
+  TemplateSource,
+  ControlFlowMigrationResult,
+  TextEdit,
+  Autofix,
+  AutofixResult,
+  SuppressedIssue,
+  UnusedSuppression
 } from './ngperf/performance-analyzer';
+
+export type {
+  TemplateAst,
+  TemplateNode,
+  TemplateElement,
+  TemplateAttribute,
+  TemplateBlock,
+  TemplateText,
+  TemplateInterpolation,
+  TemplateLetDeclaration,
+  TemplateComment,
+  TemplatePipeUsage,
+  TemplatePropertyRead,
+  BindingKind,
+  SourceSpan
+} from './ngperf/template-parser';
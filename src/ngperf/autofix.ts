@@ -0,0 +1,122 @@
+import * as ts from 'typescript';
+import type { Autofix, TextEdit } from './performance-analyzer';
+
+/**
+ * Autofix helpers
+ *
+ * Findings can carry an `autofix`: text edits that implement their `fix`.
+ * Edits are planned across files before anything is written, so a fix is
+ * applied completely or not at all, and fixes that touch the same text as an
+ * earlier fix are skipped instead of corrupting the file.
+ */
+
+export interface AutofixPlan {
+  /** Accepted edits per file, in source order */
+  editsByFile: Map<string, TextEdit[]>;
+  applied: Autofix[];
+  /** Fixes skipped because they overlap an earlier fix */
+  conflicts: Autofix[];
+}
+
+export function planAutofixes(fixes: Autofix[]): AutofixPlan {
+  const editsByFile = new Map<string, TextEdit[]>();
+  const applied: Autofix[] = [];
+  const conflicts: Autofix[] = [];
+
+  fixes.forEach((fix) => {
+    // Identical edits (e.g. the same import) are shared between fixes
+    const edits = fix.edits.filter(
+      (edit) => !(editsByFile.get(edit.filePath) || []).some((other) => isSameEdit(edit, other))
+    );
+    const conflicting = edits.some(
+      (edit, index) =>
+        (editsByFile.get(edit.filePath) || []).some((other) => overlaps(edit, other)) ||
+        edits.slice(0, index).some((other) => other.filePath === edit.filePath && overlaps(edit, other))
+    );
+    if (conflicting) {
+      conflicts.push(fix);
+      return;
+    }
+
+    edits.forEach((edit) => editsByFile.set(edit.filePath, [...(editsByFile.get(edit.filePath) || []), edit]));
+    applied.push(fix);
+  });
+
+  editsByFile.forEach((edits) => edits.sort((a, b) => a.start - b.start || a.end - b.end));
+  return { editsByFile, applied, conflicts };
+}
+
+/**
+ * Applies non-overlapping edits to a file's text. Insertions at the same
+ * offset keep the order they were planned in.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  let output = '';
+  let cursor = 0;
+  edits.forEach((edit) => {
+    output += text.slice(cursor, edit.start) + edit.newText;
+    cursor = Math.max(cursor, edit.end);
+  });
+  return output + text.slice(cursor);
+}
+
+/**
+ * Edits that import `names` from `moduleName`, extending an existing named
+ * import or adding a declaration after the last import
+ */
+export function addNamedImports(
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  moduleName: string,
+  names: string[]
+): TextEdit[] {
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const existing = imports.find(
+    (declaration) =>
+      ts.isStringLiteral(declaration.moduleSpecifier) &&
+      declaration.moduleSpecifier.text === moduleName &&
+      !declaration.importClause?.isTypeOnly &&
+      declaration.importClause?.namedBindings &&
+      ts.isNamedImports(declaration.importClause.namedBindings)
+  );
+  const namedBindings = existing?.importClause?.namedBindings as ts.NamedImports | undefined;
+  const imported = new Set(namedBindings?.elements.map((element) => element.name.text));
+  const missing = names.filter((name) => !imported.has(name));
+  if (missing.length === 0) return [];
+
+  if (namedBindings && namedBindings.elements.length > 0) {
+    const last = namedBindings.elements[namedBindings.elements.length - 1];
+    return [{ filePath, start: last.getEnd(), end: last.getEnd(), newText: `, ${missing.join(', ')}` }];
+  }
+  if (namedBindings) {
+    const start = namedBindings.getStart() + 1;
+    return [{ filePath, start, end: namedBindings.getEnd() - 1, newText: ` ${missing.join(', ')} ` }];
+  }
+
+  const statement = `import { ${missing.join(', ')} } from '${moduleName}';`;
+  const lastImport = imports[imports.length - 1];
+  return lastImport
+    ? [{ filePath, start: lastImport.getEnd(), end: lastImport.getEnd(), newText: `\n${statement}` }]
+    : [{ filePath, start: 0, end: 0, newText: `${statement}\n` }];
+}
+
+/** Leading whitespace of the line `position` is on */
+export function getLineIndent(text: string, position: number): string {
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+function isSameEdit(a: TextEdit, b: TextEdit): boolean {
+  return a.filePath === b.filePath && a.start === b.start && a.end === b.end && a.newText === b.newText;
+}
+
+/** Replaced ranges that intersect, or an insertion inside a replaced range */
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  if (a.filePath !== b.filePath) return false;
+  if (a.start === a.end || b.start === b.end) {
+    const insert = a.start === a.end ? a : b;
+    const other = insert === a ? b : a;
+    return insert.start > other.start && insert.start < other.end;
+  }
+  return a.start < b.end && b.start < a.end;
+}
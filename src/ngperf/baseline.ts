@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { relative, resolve, sep } from 'path';
+import type { CodeLocation, ComponentAnalysis } from './performance-analyzer';
+import { isRecord } from './type-guards';
+
+/**
+ * Baseline of accepted findings
+ *
+ * Findings are keyed by fingerprints built from the rule, the file relative
+ * to the baseline, the class and the whitespace-normalized snippet, so
+ * unrelated edits that move code around don't turn old findings into new
+ * ones. A fingerprint may occur several times, e.g. for two identical
+ * `*ngFor` loops in one template, and each occurrence is matched once.
+ */
+
+export interface BaselineEntry {
+  fingerprint: string;
+  type: string;
+  /** Relative to the baseline file */
+  file: string;
+  symbol: string;
+  description: string;
+}
+
+export interface BaselineComparison {
+  /** Analyses with baselined findings removed */
+  analyses: ComponentAnalysis[];
+  newIssues: number;
+  baselinedIssues: number;
+  /** Baseline entries no longer found */
+  fixed: BaselineEntry[];
+}
+
+type BaselineIssue = { type: string; description: string; location: CodeLocation };
+
+const BASELINE_VERSION = 1;
+
+const ISSUE_LISTS = [
+  'changeDetectionIssues',
+  'templateIssues',
+  'subscriptionIssues',
+  'signalIssues',
+  'zoneIssues',
+] as const;
+
+export class Baseline {
+  constructor(public readonly entries: BaselineEntry[]) {}
+
+  public static load(baselinePath: string): Baseline {
+    let baseline: unknown;
+    try {
+      baseline = JSON.parse(readFileSync(baselinePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read baseline ${baselinePath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!isBaselineFile(baseline)) {
+      throw new Error(
+        `Unrecognized baseline format in ${baselinePath}: expected version ${BASELINE_VERSION} with an issues array`
+      );
+    }
+    return new Baseline(baseline.issues);
+  }
+
+  /**
+   * Baseline of every finding in `analyses`. `baseDir` is the directory the
+   * baseline file is written to.
+   */
+  public static fromAnalyses(analyses: ComponentAnalysis[], baseDir: string): Baseline {
+    const entries = analyses.flatMap((analysis) =>
+      ISSUE_LISTS.flatMap((list) =>
+        analysis[list].map((issue) => createEntry(issue, analysis, baseDir))
+      )
+    );
+    return new Baseline(
+      entries.sort(
+        (a, b) =>
+          a.file.localeCompare(b.file) ||
+          a.symbol.localeCompare(b.symbol) ||
+          a.type.localeCompare(b.type) ||
+          a.fingerprint.localeCompare(b.fingerprint)
+      )
+    );
+  }
+
+  /**
+   * Splits findings into new and baselined ones, and baseline entries into
+   * matched and fixed ones. Only entries for files under `scope` (the
+   * analyzed path) count as fixed, and none for `failedFiles` or templates
+   * named after them, whose findings are unknown.
+   */
+  public compare(
+    analyses: ComponentAnalysis[],
+    baseDir: string,
+    scope: string = baseDir,
+    failedFiles: string[] = []
+  ): BaselineComparison {
+    const unknown = new Set(failedFiles.map((file) => resolve(file).replace(/\.ts$/, '')));
+
+    // Unmatched baseline entries by fingerprint
+    const remaining = new Map<string, BaselineEntry[]>();
+    this.entries.forEach((entry) =>
+      remaining.set(entry.fingerprint, [...(remaining.get(entry.fingerprint) || []), entry])
+    );
+
+    let newIssues = 0;
+    let baselinedIssues = 0;
+    const filtered = analyses.map((analysis) => {
+      const filterIssues = <T extends BaselineIssue>(issues: T[]): T[] =>
+        issues.filter((issue) => {
+          const matches = remaining.get(createEntry(issue, analysis, baseDir).fingerprint);
+          if (matches?.length) {
+            matches.pop();
+            baselinedIssues++;
+            return false;
+          }
+          newIssues++;
+          return true;
+        });
+
+      return {
+        ...analysis,
+        changeDetectionIssues: filterIssues(analysis.changeDetectionIssues),
+        templateIssues: filterIssues(analysis.templateIssues),
+        subscriptionIssues: filterIssues(analysis.subscriptionIssues),
+        signalIssues: filterIssues(analysis.signalIssues),
+        zoneIssues: filterIssues(analysis.zoneIssues),
+      };
+    });
+
+    return {
+      analyses: filtered,
+      newIssues,
+      baselinedIssues,
+      fixed: Array.from(remaining.values())
+        .flat()
+        .filter((entry) => {
+          const file = resolve(baseDir, entry.file);
+          return (
+            !relative(resolve(scope), file).startsWith('..') &&
+            !unknown.has(file.replace(/\.(ts|html)$/, ''))
+          );
+        }),
+    };
+  }
+
+  /**
+   * The baseline without the given fixed entries
+   */
+  public without(fixed: BaselineEntry[]): Baseline {
+    const removed = new Set(fixed);
+    return new Baseline(this.entries.filter((entry) => !removed.has(entry)));
+  }
+
+  public save(baselinePath: string): void {
+    writeFileSync(baselinePath, JSON.stringify(this.toJSON(), null, 2) + '\n');
+  }
+
+  public toJSON(): { version: number; issues: BaselineEntry[] } {
+    return { version: BASELINE_VERSION, issues: this.entries };
+  }
+}
+
+function isBaselineFile(value: unknown): value is ReturnType<Baseline['toJSON']> {
+  return (
+    isRecord(value) &&
+    value.version === BASELINE_VERSION &&
+    Array.isArray(value.issues) &&
+    value.issues.every(
+      (entry) =>
+        isRecord(entry) &&
+        ['fingerprint', 'type', 'file', 'symbol', 'description'].every(
+          (key) => typeof entry[key] === 'string'
+        )
+    )
+  );
+}
+
+function createEntry(
+  issue: BaselineIssue,
+  analysis: ComponentAnalysis,
+  baseDir: string
+): BaselineEntry {
+  const file = relative(baseDir, resolve(issue.location.file)).split(sep).join('/');
+  // Class-level findings may have no snippet; numbers in descriptions change too often
+  const snippet =
+    issue.location.snippet.replace(/\s+/g, ' ').trim() || issue.description.replace(/\d+/g, 'N');
+  const fingerprint = createHash('sha1')
+    .update([issue.type, file, analysis.componentName, snippet].join('\0'))
+    .digest('hex')
+    .slice(0, 16);
+
+  return {
+    fingerprint,
+    type: issue.type,
+    file,
+    symbol: analysis.componentName,
+    description: issue.description,
+  };
+}
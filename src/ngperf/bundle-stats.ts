@@ -0,0 +1,316 @@
+import { readFileSync } from 'fs';
+import { isRecord } from './type-guards';
+
+/**
+ * Bundle attribution from Angular build artifacts
+ *
+ * Reads the esbuild metafile (`ng build --stats-json` with the application
+ * builder) or a webpack stats JSON and attributes measured byte sizes to
+ * chunks, source files and third-party packages. Works fully offline.
+ */
+
+export interface BundleModule {
+  /** Source path as recorded by the bundler, normalized to forward slashes */
+  path: string;
+  bytes: number;
+}
+
+export interface BundleChunk {
+  name: string;
+  bytes: number;
+  initial: boolean;
+  modules: BundleModule[];
+}
+
+export interface BundlePackage {
+  name: string;
+  bytes: number;
+  initialBytes: number;
+  lazyBytes: number;
+}
+
+export interface BundleFileSize {
+  bytes: number;
+  initialBytes: number;
+  chunks: string[];
+}
+
+export interface BundleStatsSummary {
+  format: 'esbuild' | 'webpack';
+  totalBytes: number;
+  initialBytes: number;
+  lazyBytes: number;
+  chunks: BundleChunk[];
+  packages: BundlePackage[];
+}
+
+/** The parts of an esbuild metafile that are read */
+interface EsbuildMetafile {
+  inputs: Record<string, unknown>;
+  outputs: Record<
+    string,
+    {
+      bytes?: number;
+      entryPoint?: string;
+      imports?: Array<{ path: string; kind: string }>;
+      inputs?: Record<string, { bytesInOutput?: number }>;
+    }
+  >;
+}
+
+/** The parts of a webpack stats JSON that are read */
+interface WebpackStats {
+  chunks: WebpackChunk[];
+  modules?: WebpackModule[];
+}
+
+interface WebpackChunk {
+  id: string | number;
+  files?: string[];
+  names?: string[];
+  size?: number;
+  initial?: boolean;
+  entry?: boolean;
+  modules?: WebpackModule[];
+}
+
+interface WebpackModule {
+  name?: string;
+  size?: number;
+  chunks?: Array<string | number>;
+  /** Parts of a concatenated module */
+  modules?: WebpackModule[];
+}
+
+export class BundleStats {
+  private packages?: BundlePackage[];
+
+  private constructor(
+    public readonly format: 'esbuild' | 'webpack',
+    public readonly chunks: BundleChunk[]
+  ) {}
+
+  /**
+   * Loads an esbuild metafile or webpack stats JSON, detecting the format
+   */
+  public static load(statsPath: string): BundleStats {
+    let stats: unknown;
+    try {
+      stats = JSON.parse(readFileSync(statsPath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read stats file ${statsPath}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    if (isEsbuildMetafile(stats)) {
+      return new BundleStats('esbuild', this.parseEsbuildMetafile(stats));
+    }
+    if (isWebpackStats(stats)) {
+      return new BundleStats('webpack', this.parseWebpackStats(stats));
+    }
+
+    throw new Error(
+      `Unrecognized stats format in ${statsPath}: expected an esbuild metafile or webpack stats JSON`
+    );
+  }
+
+  private static parseEsbuildMetafile(metafile: EsbuildMetafile): BundleChunk[] {
+    const outputs = metafile.outputs;
+    const jsOutputs = Object.keys(outputs).filter((name) => /\.m?js$/.test(name));
+
+    // Initial chunks: entry points plus everything they import statically
+    const initial = new Set<string>();
+    const queue = jsOutputs.filter((name) => outputs[name].entryPoint);
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      if (initial.has(name)) continue;
+      initial.add(name);
+      (outputs[name].imports || [])
+        .filter((imp) => imp.kind === 'import-statement' && outputs[imp.path])
+        .forEach((imp) => queue.push(imp.path));
+    }
+
+    return jsOutputs.map((name) => {
+      const output = outputs[name];
+      return {
+        name,
+        bytes: output.bytes || 0,
+        initial: initial.has(name),
+        modules: Object.entries(output.inputs || {}).map(([path, input]) => ({
+          path: normalizeModulePath(path),
+          bytes: input.bytesInOutput || 0,
+        })),
+      };
+    });
+  }
+
+  private static parseWebpackStats(stats: WebpackStats): BundleChunk[] {
+    const topLevelModules = stats.modules || [];
+
+    return stats.chunks.map((chunk) => {
+      const chunkModules =
+        chunk.modules ||
+        topLevelModules.filter((module) => (module.chunks || []).includes(chunk.id));
+      const modules: BundleModule[] = [];
+      const collect = (module: WebpackModule) => {
+        // Concatenated modules ("./src/main.ts + 45 modules") list their parts
+        if (Array.isArray(module.modules) && module.modules.length > 0) {
+          module.modules.forEach(collect);
+        } else if (module.name) {
+          modules.push({ path: normalizeModulePath(module.name), bytes: module.size || 0 });
+        }
+      };
+      chunkModules.forEach(collect);
+
+      return {
+        name: (chunk.files && chunk.files.find((file) => file.endsWith('.js'))) ||
+          (chunk.names && chunk.names[0]) ||
+          String(chunk.id),
+        bytes: chunk.size || modules.reduce((sum, module) => sum + module.bytes, 0),
+        initial: !!(chunk.initial || chunk.entry),
+        modules,
+      };
+    });
+  }
+
+  public getPackages(): BundlePackage[] {
+    if (this.packages) {
+      return this.packages;
+    }
+
+    const packages = new Map<string, BundlePackage>();
+
+    this.chunks.forEach((chunk) => {
+      chunk.modules.forEach((module) => {
+        const name = getPackageName(module.path);
+        if (!name) return;
+        const entry = packages.get(name) || { name, bytes: 0, initialBytes: 0, lazyBytes: 0 };
+        entry.bytes += module.bytes;
+        if (chunk.initial) {
+          entry.initialBytes += module.bytes;
+        } else {
+          entry.lazyBytes += module.bytes;
+        }
+        packages.set(name, entry);
+      });
+    });
+
+    this.packages = Array.from(packages.values()).sort((a, b) => b.bytes - a.bytes);
+    return this.packages;
+  }
+
+  /**
+   * Measured size of a package, matching subpaths (`rxjs` includes `rxjs/operators`)
+   */
+  public getPackage(moduleName: string): BundlePackage | undefined {
+    const name = getPackageName(`node_modules/${moduleName}`);
+    return this.getPackages().find((pkg) => pkg.name === name);
+  }
+
+  /**
+   * Measured size of a source file, matched by whole trailing path segments
+   * so absolute paths on disk line up with the workspace-relative paths
+   * bundlers record
+   */
+  public getFileSize(filePath: string): BundleFileSize | undefined {
+    const normalized = normalizeModulePath(filePath);
+    let result: BundleFileSize | undefined;
+
+    this.chunks.forEach((chunk) => {
+      chunk.modules.forEach((module) => {
+        if (module.path.includes('node_modules/')) return;
+        if (!endsWithPath(normalized, module.path) && !endsWithPath(module.path, normalized)) return;
+        result = result || { bytes: 0, initialBytes: 0, chunks: [] };
+        result.bytes += module.bytes;
+        if (chunk.initial) result.initialBytes += module.bytes;
+        result.chunks.push(chunk.name);
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Application source files (outside node_modules) sorted by measured size
+   */
+  public getSourceFiles(): Array<BundleModule & { initial: boolean; chunk: string }> {
+    const files: Array<BundleModule & { initial: boolean; chunk: string }> = [];
+    this.chunks.forEach((chunk) => {
+      chunk.modules
+        .filter((module) => !module.path.includes('node_modules/'))
+        .forEach((module) => files.push({ ...module, initial: chunk.initial, chunk: chunk.name }));
+    });
+    return files.sort((a, b) => b.bytes - a.bytes);
+  }
+
+  public getSummary(): BundleStatsSummary {
+    const initialBytes = this.chunks
+      .filter((chunk) => chunk.initial)
+      .reduce((sum, chunk) => sum + chunk.bytes, 0);
+    const totalBytes = this.chunks.reduce((sum, chunk) => sum + chunk.bytes, 0);
+
+    return {
+      format: this.format,
+      totalBytes,
+      initialBytes,
+      lazyBytes: totalBytes - initialBytes,
+      chunks: [...this.chunks].sort((a, b) => b.bytes - a.bytes),
+      packages: this.getPackages(),
+    };
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+function isEsbuildMetafile(value: unknown): value is EsbuildMetafile {
+  return (
+    isRecord(value) &&
+    isRecord(value.inputs) &&
+    isRecord(value.outputs) &&
+    Object.values(value.outputs).every(
+      (output) =>
+        isRecord(output) &&
+        (output.imports === undefined || (Array.isArray(output.imports) && output.imports.every(isRecord))) &&
+        (output.inputs === undefined || isRecord(output.inputs))
+    )
+  );
+}
+
+function isWebpackStats(value: unknown): value is WebpackStats {
+  const isModuleList = (modules: unknown) =>
+    modules === undefined || (Array.isArray(modules) && modules.every(isRecord));
+  return (
+    isRecord(value) &&
+    Array.isArray(value.chunks) &&
+    value.chunks.every((chunk) => isRecord(chunk) && isModuleList(chunk.modules)) &&
+    isModuleList(value.modules)
+  );
+}
+
+/** `app/a.ts` ends `src/app/a.ts`, but `a.ts` doesn't end `src/my-a.ts` */
+function endsWithPath(path: string, suffix: string): boolean {
+  return path === suffix || path.endsWith(`/${suffix}`);
+}
+
+function normalizeModulePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^.*!/, '') // webpack loader prefixes
+    .replace(/ \+ \d+ modules?$/, '')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^[a-z-]+:/, ''); // esbuild namespaces such as "angular:"
+}
+
+function getPackageName(path: string): string | undefined {
+  const index = path.lastIndexOf('node_modules/');
+  if (index === -1) return undefined;
+  const parts = path.substring(index + 'node_modules/'.length).split('/');
+  return parts[0].startsWith('@') ? `${parts[0]}/${parts[1]}` : parts[0];
+}
@@ -4,11 +4,16 @@
  * CLI Entry Point for Angular Performance Analyzer
  */
 
+import * as fs from 'fs';
 import * as path from 'path';
 import { 
   PerformanceAnalyzerCLI, 
-  PerformanceAnalyzer 
+  AnalysisOptions,
+  ProjectSummary
 } from './performance-analyzer';
+import { BaselineEntry } from './baseline';
+import { BundleStats } from './bundle-stats';
+import { ProjectConfig } from './config';
 
 // Helper function to resolve project path
 function resolveProjectPath(inputPath?: string): string {
@@ -23,6 +28,71 @@ function resolveProjectPath(inputPath?: string): string {
   return path.resolve(process.cwd(), inputPath);
 }
 
+// Helper function to build analysis options from parsed flags
+function resolveAnalysisOptions(parsed: any, targetPath?: string): AnalysisOptions {
+  const options: AnalysisOptions = {};
+
+  if (parsed.tsconfig) {
+    // A bare --tsconfig flag searches upward from the analyzed path
+    options.tsconfigPath =
+      parsed.tsconfig === true
+        ? resolveProjectPath(targetPath)
+        : resolveProjectPath(parsed.tsconfig);
+  }
+
+  if (typeof parsed.stats === 'string') {
+    options.statsPath = resolveProjectPath(parsed.stats);
+  }
+
+  if (typeof parsed.rules === 'string') {
+    options.rules = parsed.rules
+      .split(',')
+      .map((rulePath: string) => resolveProjectPath(rulePath.trim()));
+  }
+
+  if (typeof parsed.baseline === 'string') {
+    options.baselinePath = resolveProjectPath(parsed.baseline);
+  }
+
+  if (parsed['report-unused-disables']) {
+    options.reportUnusedDisables = true;
+  }
+
+  // Without --config, the nearest config file above the analyzed path
+  const configPath =
+    typeof parsed.config === 'string'
+      ? resolveProjectPath(parsed.config)
+      : ProjectConfig.find(resolveProjectPath(targetPath));
+  if (configPath) {
+    options.configPath = configPath;
+    console.log(`⚙️  Using config ${configPath}`);
+  }
+
+  return options;
+}
+
+// With a baseline, lists fixed entries and fails the run on new issues or
+// on files that could not be compared
+function checkBaseline(summary: ProjectSummary, options: AnalysisOptions): void {
+  if (!options.baselinePath || !summary.baseline) return;
+
+  summary.baseline.fixed.forEach((entry) => console.log(formatFixedEntry(entry)));
+  if (summary.analysisErrors > 0) {
+    console.error(
+      `❌ ${summary.analysisErrors} files could not be analyzed, so their findings were not compared with the baseline`
+    );
+    process.exitCode = 1;
+  }
+  if (summary.baseline.newIssues > 0) {
+    console.error(`❌ ${summary.baseline.newIssues} new issues not in the baseline ${options.baselinePath}`);
+    process.exitCode = 1;
+  }
+}
+
+function formatFixedEntry(entry: BaselineEntry): string {
+  return `   Fixed ${entry.file} ${entry.symbol} [${entry.type}] ${entry.description}`;
+}
+
 // Helper function to create output directory if needed
 async function ensureOutputDirectory(outputPath: string): Promise<void> {
   const fs = await import('fs/promises');
@@ -36,6 +106,9 @@ async function ensureOutputDirectory(outputPath: string): Promise<void> {
   }
 }
 
+// Flags that never take a value, so a following path stays positional
+const BOOLEAN_FLAGS = ['dry-run', 'write', 'report-unused-disables'];
+
 // Helper function to parse command line arguments
 function parseArgs(args: string[]) {
   const parsed: any = { _: [] };
@@ -47,7 +120,7 @@ function parseArgs(args: string[]) {
       // Long flag: --output
       const key = arg.slice(2);
       const nextArg = args[i + 1];
-      if (nextArg && !nextArg.startsWith('-')) {
+      if (nextArg && !nextArg.startsWith('-') && !BOOLEAN_FLAGS.includes(key)) {
         parsed[key] = nextArg;
         i++; // Skip next arg since we consumed it
       } else {
@@ -75,7 +148,12 @@ function parseArgs(args: string[]) {
 // Command handlers
 const commands = {
   // Analyze entire project
-  async project(projectPath?: string, outputPath?: string, format?: string) {
+  async project(
+    projectPath?: string,
+    outputPath?: string,
+    format?: string,
+    options: AnalysisOptions = {}
+  ) {
     const resolvedPath = resolveProjectPath(projectPath);
     console.log(`🔍 Analyzing project: ${resolvedPath}`);
     
@@ -85,26 +163,34 @@ const commands = {
     
     if (format === 'json') {
       // Handle JSON format
-      const { analyses, summary } = PerformanceAnalyzerCLI.analyzeProjectWithSummary(resolvedPath);
+      const { analyses, summary } = PerformanceAnalyzerCLI.analyzeProjectWithSummary(resolvedPath, options);
       const jsonReport = {
         summary,
         analyses,
+        routes: PerformanceAnalyzerCLI.analyzeRoutes(resolvedPath, options),
         generatedAt: new Date().toISOString()
       };
       
       const outputFile = outputPath || './performance-report.json';
       await PerformanceAnalyzerCLI.saveReportToFile(JSON.stringify(jsonReport, null, 2), outputFile);
       console.log(`📄 JSON report saved to: ${outputFile}`);
+      checkBaseline(summary, options);
       
       return { analyses, summary, reportPath: outputFile };
     } else {
       // Default markdown format
-      return PerformanceAnalyzerCLI.runAnalysis(resolvedPath, outputPath);
+      const { analyses, summary } = PerformanceAnalyzerCLI.runAnalysisWithSummary(
+        resolvedPath,
+        outputPath,
+        options
+      );
+      checkBaseline(summary, options);
+      return analyses;
     }
   },
 
   // Analyze single component
-  async component(componentPath: string) {
+  async component(componentPath: string, options: AnalysisOptions = {}) {
     if (!componentPath) {
       throw new Error('Component path is required');
     }
@@ -112,30 +198,44 @@ const commands = {
     const resolvedPath = path.resolve(componentPath);
     console.log(`🔍 Analyzing component: ${resolvedPath}`);
     
-    const analyzer = new PerformanceAnalyzer();
-    const analysis = analyzer.analyzeComponent(resolvedPath);
-    
-    console.log(`\n📊 Component Analysis Results:`);
-    console.log(`   Name: ${analysis.componentName}`);
-    console.log(`   Performance Score: ${analysis.performanceScore}/100`);
-    
-    const totalIssues = analysis.changeDetectionIssues.length + 
-                       analysis.templateIssues.length + 
-                       analysis.subscriptionIssues.length;
-    console.log(`   Issues Found: ${totalIssues}`);
-    
-    if (analysis.recommendations.length > 0) {
-      console.log(`\n💡 Top Recommendations:`);
-      analysis.recommendations.slice(0, 3).forEach((rec, index) => {
-        console.log(`   ${index + 1}. ${rec.title} (${rec.priority} priority)`);
-      });
+    const analyzer = PerformanceAnalyzerCLI.createAnalyzer(
+      path.dirname(resolvedPath),
+      options
+    );
+    const analyses = analyzer.analyzeFile(resolvedPath);
+    if (analyses.length === 0) {
+      throw new Error(`No @Component, @Directive or @Pipe class found in ${resolvedPath}`);
     }
     
-    return analysis;
+    analyses.forEach((analysis) => {
+      console.log(`\n📊 Component Analysis Results:`);
+      console.log(`   Name: ${analysis.componentName}`);
+      console.log(`   Performance Score: ${analysis.performanceScore}/100`);
+      
+      const totalIssues = analysis.changeDetectionIssues.length + 
+                         analysis.templateIssues.length + 
+                         analysis.subscriptionIssues.length +
+                         analysis.signalIssues.length +
+                         analysis.zoneIssues.length;
+      console.log(`   Issues Found: ${totalIssues}`);
+      
+      if (analysis.recommendations.length > 0) {
+        console.log(`\n💡 Top Recommendations:`);
+        analysis.recommendations.slice(0, 3).forEach((rec, index) => {
+          console.log(`   ${index + 1}. ${rec.title} (${rec.priority} priority)`);
+        });
+      }
+    });
+    
+    return analyses;
   },
 
   // Generate detailed report
-  async report(projectPath?: string, outputPath?: string) {
+  async report(
+    projectPath?: string,
+    outputPath?: string,
+    options: AnalysisOptions = {}
+  ) {
     const resolvedPath = resolveProjectPath(projectPath);
     const defaultOutput = outputPath || './performance-report.md';
     
@@ -143,7 +243,7 @@ const commands = {
     
     await ensureOutputDirectory(defaultOutput);
     
-    const { analyses, summary } = PerformanceAnalyzerCLI.analyzeProjectWithSummary(resolvedPath);
+    const { analyses, summary } = PerformanceAnalyzerCLI.analyzeProjectWithSummary(resolvedPath, options);
     const report = PerformanceAnalyzerCLI.generateReportWithSummary(analyses, summary);
     
     await PerformanceAnalyzerCLI.saveReportToFile(report, defaultOutput);
@@ -153,10 +253,334 @@ const commands = {
     console.log(`   Components: ${summary.totalComponents}`);
     console.log(`   Average Score: ${summary.averagePerformanceScore}/100`);
     console.log(`   Total Issues: ${summary.totalIssues}`);
+    checkBaseline(summary, options);
     
     return { analyses, summary, reportPath: defaultOutput };
   },
 
+  // Analyze router configuration
+  async routes(
+    projectPath?: string,
+    outputPath?: string,
+    format?: string,
+    options: AnalysisOptions = {}
+  ) {
+    const resolvedPath = resolveProjectPath(projectPath);
+    console.log(`🧭 Analyzing routes: ${resolvedPath}`);
+
+    const routeAnalysis = PerformanceAnalyzerCLI.analyzeRoutes(resolvedPath, options);
+    const report =
+      format === 'json'
+        ? JSON.stringify(routeAnalysis, null, 2)
+        : PerformanceAnalyzerCLI.generateRouteReport(routeAnalysis);
+
+    if (outputPath) {
+      await ensureOutputDirectory(outputPath);
+      await PerformanceAnalyzerCLI.saveReportToFile(report, outputPath);
+    } else {
+      console.log('\n' + report);
+    }
+
+    return routeAnalysis;
+  },
+
+  // Build the component tree from selector usage
+  async graph(
+    projectPath?: string,
+    outputPath?: string,
+    format?: string,
+    options: AnalysisOptions = {}
+  ) {
+    const resolvedPath = resolveProjectPath(projectPath);
+    console.log(`🌳 Building component tree: ${resolvedPath}`);
+
+    const graph = PerformanceAnalyzerCLI.buildComponentGraph(resolvedPath, options);
+    const report =
+      format === 'json'
+        ? JSON.stringify(graph, null, 2)
+        : format === 'dot'
+        ? PerformanceAnalyzerCLI.generateComponentGraphDot(graph)
+        : PerformanceAnalyzerCLI.generateComponentGraphReport(graph);
+
+    if (outputPath) {
+      await ensureOutputDirectory(outputPath);
+      await PerformanceAnalyzerCLI.saveReportToFile(report, outputPath);
+    } else {
+      console.log('\n' + report);
+    }
+
+    return graph;
+  },
+
+  // Per-component readiness for zoneless change detection
+  async zoneless(
+    projectPath?: string,
+    outputPath?: string,
+    format?: string,
+    options: AnalysisOptions = {}
+  ) {
+    const resolvedPath = resolveProjectPath(projectPath);
+    console.log(`🧪 Checking zoneless readiness: ${resolvedPath}`);
+
+    const { analyses, summary } = PerformanceAnalyzerCLI.analyzeProjectWithSummary(resolvedPath, options);
+    const report =
+      format === 'json'
+        ? JSON.stringify(
+            {
+              readiness: summary.zonelessReadiness,
+              components: analyses.map((analysis) => ({
+                componentName: analysis.componentName,
+                kind: analysis.kind,
+                filePath: analysis.filePath,
+                ...analysis.zoneless,
+              })),
+              generatedAt: new Date().toISOString(),
+            },
+            null,
+            2
+          )
+        : PerformanceAnalyzerCLI.generateZonelessReport(analyses);
+
+    if (outputPath) {
+      await ensureOutputDirectory(outputPath);
+      await PerformanceAnalyzerCLI.saveReportToFile(report, outputPath);
+    } else {
+      console.log('\n' + report);
+    }
+
+    return { analyses, summary };
+  },
+
+  // Rewrite templates to newer Angular syntax
+  async migrate(
+    migration?: string,
+    projectPath?: string,
+    outputPath?: string,
+    dryRun = false,
+    options: AnalysisOptions = {}
+  ) {
+    if (migration !== 'control-flow') {
+      throw new Error(
+        `Unknown migration '${migration ?? ''}': ngperf-audit migrate control-flow [path] [--dry-run]`
+      );
+    }
+
+    const resolvedPath = resolveProjectPath(projectPath);
+    console.log(
+      `🔁 Migrating to built-in control flow${dryRun ? ' (dry run)' : ''}: ${resolvedPath}`
+    );
+
+    const result = PerformanceAnalyzerCLI.migrateControlFlow(resolvedPath, {
+      configPath: options.configPath,
+      write: !dryRun,
+    });
+
+    if (dryRun) {
+      const diff = result.files.map((file) => file.diff).join('\n');
+      if (outputPath) {
+        await ensureOutputDirectory(outputPath);
+        await PerformanceAnalyzerCLI.saveReportToFile(diff, outputPath);
+      } else if (diff) {
+        console.log('\n' + diff);
+      }
+    }
+
+    result.files.forEach((file) => {
+      console.log(`   ${dryRun ? 'Would update' : 'Updated'} ${file.filePath} (${file.migrated} directives)`);
+    });
+    result.skipped.forEach((skip) => {
+      console.warn(`   ⚠️  Skipped ${skip.filePath}:${skip.line}:${skip.column} - ${skip.reason}`);
+    });
+    console.log(
+      `\n🔁 ${result.migrated} directives in ${result.files.length} files ${dryRun ? 'can be' : 'were'} migrated, ${result.skipped.length} left for manual migration`
+    );
+
+    return result;
+  },
+
+  // List built-in and custom rules
+  async rules(
+    outputPath?: string,
+    format?: string,
+    options: AnalysisOptions = {}
+  ) {
+    const rules = PerformanceAnalyzerCLI.createAnalyzer(process.cwd(), {
+      rules: options.rules,
+      configPath: options.configPath,
+    }).getRules();
+    const report =
+      format === 'json'
+        ? JSON.stringify(
+            rules.map(({ check, ...rule }) => rule),
+            null,
+            2
+          )
+        : PerformanceAnalyzerCLI.generateRulesReport(rules);
+
+    if (outputPath) {
+      await ensureOutputDirectory(outputPath);
+      await PerformanceAnalyzerCLI.saveReportToFile(report, outputPath);
+    } else {
+      console.log('\n' + report);
+    }
+
+    return rules;
+  },
+
+  // Record current findings, or drop fixed ones from an existing baseline
+  async baseline(
+    action?: string,
+    projectPath?: string,
+    options: AnalysisOptions = {}
+  ) {
+    if (action !== 'create' && action !== 'update') {
+      throw new Error(
+        `Unknown baseline action '${action ?? ''}': ngperf-audit baseline <create|update> [path] [--baseline <file>]`
+      );
+    }
+
+    const resolvedPath = resolveProjectPath(projectPath);
+    const baselinePath = options.baselinePath || resolveProjectPath('ngperf-baseline.json');
+
+    if (action === 'create') {
+      console.log(`📏 Creating baseline for: ${resolvedPath}`);
+      const baseline = PerformanceAnalyzerCLI.createBaseline(resolvedPath, baselinePath, options);
+      console.log(`\n📏 ${baseline.entries.length} issues recorded in ${baselinePath}`);
+      return baseline;
+    }
+
+    console.log(`📏 Updating baseline ${baselinePath} for: ${resolvedPath}`);
+    const result = PerformanceAnalyzerCLI.updateBaseline(resolvedPath, baselinePath, options);
+    result.fixed.forEach((entry) => console.log(formatFixedEntry(entry)));
+    console.log(
+      `\n📏 ${result.fixed.length} fixed issues removed, ${result.baseline.entries.length} remain in ${baselinePath}`
+    );
+    if (result.newIssues > 0) {
+      console.warn(
+        `   ⚠️  ${result.newIssues} new issues were not added; run 'baseline create' to accept them`
+      );
+    }
+    return result;
+  },
+
+  // Print the effective configuration, for a directory or a single file
+  async config(
+    targetPath?: string,
+    outputPath?: string,
+    options: AnalysisOptions = {}
+  ) {
+    const resolvedPath = resolveProjectPath(targetPath);
+    const config = PerformanceAnalyzerCLI.loadConfig(resolvedPath, options);
+    const isFile = fs.existsSync(resolvedPath) && fs.statSync(resolvedPath).isFile();
+    const report = JSON.stringify(
+      {
+        configFile: config.filePath ?? null,
+        ...config.toJSON(isFile ? resolvedPath : undefined),
+      },
+      null,
+      2
+    );
+
+    if (outputPath) {
+      await ensureOutputDirectory(outputPath);
+      await PerformanceAnalyzerCLI.saveReportToFile(report, outputPath);
+    } else {
+      console.log('\n' + report);
+    }
+
+    return config;
+  },
+
+  // Apply the autofixes attached to findings
+  async fix(
+    projectPath?: string,
+    outputPath?: string,
+    write = false,
+    options: AnalysisOptions = {}
+  ) {
+    const resolvedPath = resolveProjectPath(projectPath);
+    console.log(`🔧 Fixing findings${write ? '' : ' (dry run)'}: ${resolvedPath}`);
+
+    const result = PerformanceAnalyzerCLI.fixProject(resolvedPath, { ...options, write });
+
+    if (!write) {
+      const diff = result.files.map((file) => file.diff).join('\n');
+      if (outputPath) {
+        await ensureOutputDirectory(outputPath);
+        await PerformanceAnalyzerCLI.saveReportToFile(diff, outputPath);
+      } else if (diff) {
+        console.log('\n' + diff);
+      }
+    }
+
+    result.applied.forEach(({ type, location, description }) => {
+      console.log(`   ${location.file}:${location.line} [${type}] ${description}`);
+    });
+    result.conflicts.forEach(({ type, location, description }) => {
+      console.warn(
+        `   ⚠️  Skipped ${location.file}:${location.line} [${type}] ${description} (overlaps another fix, run again)`
+      );
+    });
+    console.log(
+      `\n🔧 ${result.applied.length} fixes in ${result.files.length} files ${write ? 'applied' : 'available, run with --write to apply'}`
+    );
+
+    return result;
+  },
+
+  // Attribute measured bundle sizes from build stats
+  async bundle(
+    projectPath?: string,
+    outputPath?: string,
+    format?: string,
+    options: AnalysisOptions = {}
+  ) {
+    if (!options.statsPath) {
+      throw new Error(
+        'A stats file is required: ngperf-audit bundle [path] --stats <stats.json>'
+      );
+    }
+
+    const resolvedPath = resolveProjectPath(projectPath);
+    console.log(`📦 Attributing bundle sizes from: ${options.statsPath}`);
+
+    const stats = BundleStats.load(options.statsPath);
+    const { analyses } = PerformanceAnalyzerCLI.analyzeProjectWithSummary(resolvedPath, options);
+    const routeAnalysis = PerformanceAnalyzerCLI.analyzeRoutes(resolvedPath, options);
+
+    const report =
+      format === 'json'
+        ? JSON.stringify(
+            {
+              ...stats.getSummary(),
+              components: analyses
+                .filter((analysis) => analysis.bundleSize)
+                .map((analysis) => ({
+                  componentName: analysis.componentName,
+                  filePath: analysis.filePath,
+                  ...analysis.bundleSize,
+                })),
+              findings: [
+                ...analyses.flatMap((analysis) => analysis.bundleOptimizations),
+                ...routeAnalysis.optimizations,
+              ],
+              generatedAt: new Date().toISOString(),
+            },
+            null,
+            2
+          )
+        : PerformanceAnalyzerCLI.generateBundleReport(stats, analyses, routeAnalysis);
+
+    if (outputPath) {
+      await ensureOutputDirectory(outputPath);
+      await PerformanceAnalyzerCLI.saveReportToFile(report, outputPath);
+    } else {
+      console.log('\n' + report);
+    }
+
+    return stats.getSummary();
+  },
+
   // Show help
   help() {
     console.log(`
@@ -167,13 +591,36 @@ USAGE:
 
 COMMANDS:
   project [path]              Analyze entire project
-  component <path>            Analyze single component  
+  component <path>            Analyze every component in a file
   report [path]               Generate detailed report
+  routes [path]               Analyze route configuration (eager vs lazy route tree)
+  graph [path]                Component tree from selector usage (-f markdown|json|dot)
+  bundle [path] --stats <f>   Attribute measured bundle sizes to chunks, components and packages
+  zoneless [path]             Per-component readiness for zoneless change detection
+  migrate control-flow [path] Rewrite *ngIf/*ngFor/[ngSwitch] to @if/@for/@switch blocks
+  fix [path]                  Apply autofixes (OnPush, trackBy/track, takeUntilDestroyed)
+  rules                       List built-in and custom rules
+  config [path]               Print the effective configuration (for a file: with overrides applied)
+  baseline create [path]      Record current findings in a baseline file
+  baseline update [path]      Remove fixed findings from the baseline file
   help                        Show this help
 
 OPTIONS:
   -o, --output <file>         Output file path
   -f, --format <type>         Report format: 'markdown' or 'json' (default: markdown)
+  --dry-run                   migrate/fix: print unified diffs instead of writing files (default for fix)
+  --write                     fix: apply the fixes to the files
+  --stats <file>              esbuild metafile or webpack stats JSON from 'ng build --stats-json'
+                              (replaces size estimates with measured bytes)
+  --tsconfig [file]           Type-aware analysis using a ts.Program built from tsconfig
+                              (searches upward from the analyzed path if no file is given)
+  --rules <files>             Comma-separated local modules exporting custom rules
+  --config <file>             ngperf.config.json or .ngperfrc to use
+                              (default: the nearest one above the analyzed path)
+  --report-unused-disables    List ngperf-disable comments that no longer suppress anything
+  --baseline <file>           project: only report issues missing from the baseline, and exit
+                              with code 1 if there are any; baseline: the file to write
+                              (default: ./ngperf-baseline.json)
 
 EXAMPLES:
   ngperf-audit help                                         # Show this help
@@ -182,12 +629,38 @@ EXAMPLES:
   ngperf-audit project ./src/app -o ./reports/report.md    # Save to custom file
   ngperf-audit project ./src/app -f json                   # Generate JSON report
   ngperf-audit project ./src/app -o ./report.json -f json  # JSON report with custom path
+  ngperf-audit project ./src/app --tsconfig ./tsconfig.app.json  # Type-aware analysis
   
   ngperf-audit component ./src/app/app.component.ts        # Analyze single component
   
   ngperf-audit report                                       # Generate detailed report
   ngperf-audit report ./src/app -o ./my-report.md          # Custom output path
 
+  ngperf-audit routes ./src/app                            # Print route tree and lazy-loading findings
+  ngperf-audit routes ./src/app -f json -o ./routes.json   # Route tree as JSON
+
+  ngperf-audit graph ./src/app -f dot -o ./components.dot  # Component tree for Graphviz
+
+  ngperf-audit bundle ./src/app --stats ./dist/app/stats.json  # Measured bundle attribution
+
+  ngperf-audit zoneless ./src/app                          # Zoneless readiness verdicts and blockers
+
+  ngperf-audit migrate control-flow ./src/app --dry-run    # Preview the control flow migration
+  ngperf-audit migrate control-flow ./src/app              # Rewrite templates in place
+
+  ngperf-audit fix ./src/app --dry-run                     # Preview autofixes as unified diffs
+  ngperf-audit fix ./src/app --write                       # Apply autofixes
+
+  ngperf-audit project ./src/app --rules ./tools/ngperf-rules.js  # Add custom rules
+  ngperf-audit rules --rules ./tools/ngperf-rules.js       # List every rule
+
+  ngperf-audit config ./src/app                            # Effective configuration
+  ngperf-audit project ./src/app --config ./ngperf.ci.json # Use a specific config file
+
+  ngperf-audit baseline create ./src/app                   # Accept current findings
+  ngperf-audit project ./src/app --baseline ./ngperf-baseline.json  # Report new issues only
+  ngperf-audit baseline update ./src/app                   # Drop fixed issues from the baseline
+
 DEVELOPMENT USAGE (in project root):
   npm run ngperf-audit project                              # If added to package.json scripts
   npx tsx src/ngperf/cli.ts project                  # Direct TypeScript execution
@@ -197,7 +670,7 @@ For more information: https://github.com/eawebmaster20/ngperf
   }
 };
 
-// Main CLI handler
+// Main CLI handler, shared by every entry point
 async function main() {
   const args = process.argv.slice(2);
   const parsed = parseArgs(args);
@@ -219,15 +692,97 @@ async function main() {
         const projectPath = parsed._[1];
         const outputPath = parsed.output || parsed.o;
         const format = parsed.format || parsed.f || 'markdown';
-        await commands.project(projectPath, outputPath, format);
+        await commands.project(
+          projectPath,
+          outputPath,
+          format,
+          resolveAnalysisOptions(parsed, projectPath)
+        );
         break;
       case 'component':
-        await commands.component(parsed._[1]);
+        await commands.component(
+          parsed._[1],
+          resolveAnalysisOptions(parsed, parsed._[1] && path.dirname(parsed._[1]))
+        );
         break;
       case 'report':
         const reportPath = parsed._[1];
         const reportOutput = parsed.output || parsed.o;
-        await commands.report(reportPath, reportOutput);
+        await commands.report(
+          reportPath,
+          reportOutput,
+          resolveAnalysisOptions(parsed, reportPath)
+        );
+        break;
+      case 'routes':
+        await commands.routes(
+          parsed._[1],
+          parsed.output || parsed.o,
+          parsed.format || parsed.f || 'markdown',
+          resolveAnalysisOptions(parsed, parsed._[1])
+        );
+        break;
+      case 'graph':
+        await commands.graph(
+          parsed._[1],
+          parsed.output || parsed.o,
+          parsed.format || parsed.f || 'markdown',
+          resolveAnalysisOptions(parsed, parsed._[1])
+        );
+        break;
+      case 'bundle':
+        await commands.bundle(
+          parsed._[1],
+          parsed.output || parsed.o,
+          parsed.format || parsed.f || 'markdown',
+          resolveAnalysisOptions(parsed, parsed._[1])
+        );
+        break;
+      case 'zoneless':
+        await commands.zoneless(
+          parsed._[1],
+          parsed.output || parsed.o,
+          parsed.format || parsed.f || 'markdown',
+          resolveAnalysisOptions(parsed, parsed._[1])
+        );
+        break;
+      case 'migrate':
+        await commands.migrate(
+          parsed._[1],
+          parsed._[2],
+          parsed.output || parsed.o,
+          !!parsed['dry-run'],
+          resolveAnalysisOptions(parsed, parsed._[2])
+        );
+        break;
+      case 'rules':
+        await commands.rules(
+          parsed.output || parsed.o,
+          parsed.format || parsed.f || 'markdown',
+          resolveAnalysisOptions(parsed)
+        );
+        break;
+      case 'fix':
+        await commands.fix(
+          parsed._[1],
+          parsed.output || parsed.o,
+          !!parsed.write,
+          resolveAnalysisOptions(parsed, parsed._[1])
+        );
+        break;
+      case 'baseline':
+        await commands.baseline(
+          parsed._[1],
+          parsed._[2],
+          resolveAnalysisOptions(parsed, parsed._[2])
+        );
+        break;
+      case 'config':
+        await commands.config(
+          parsed._[1],
+          parsed.output || parsed.o,
+          resolveAnalysisOptions(parsed, parsed._[1])
+        );
         break;
     }
     
@@ -241,7 +796,7 @@ async function main() {
 }
 
 // Export for programmatic use
-export { commands };
+export { commands, main, resolveAnalysisOptions };
 
 // Run if called directly
 if (require.main === module) {
@@ -0,0 +1,268 @@
+import type { ComponentAnalysis } from './performance-analyzer';
+import type { RouteAnalysis, RouteNode } from './route-analyzer';
+
+/**
+ * Project-wide component tree
+ *
+ * Links components by matching their selectors against the elements used in
+ * every template, treats route components and unused components as roots,
+ * and reports change detection problems that only show up across the tree.
+ */
+
+export interface TemplateElementUsage {
+  name: string;
+  /** Attribute names without binding syntax, including bound inputs */
+  attributes: string[];
+  /** Static `class` attribute entries */
+  classes: string[];
+}
+
+export interface ComponentGraphNode {
+  /** `<filePath>#<ClassName>` */
+  id: string;
+  componentName: string;
+  filePath: string;
+  selector: string;
+  changeDetection: 'OnPush' | 'Default';
+  /** Rendered by a route rather than by a parent template */
+  routeEntry: boolean;
+  /** Distance from the nearest root */
+  depth: number;
+  descendantCount: number;
+}
+
+export interface ComponentGraphEdge {
+  from: string;
+  to: string;
+}
+
+export interface ComponentGraphFinding {
+  type: 'default-under-onpush' | 'default-subtree';
+  severity: 'high' | 'medium' | 'low';
+  component: string;
+  filePath: string;
+  description: string;
+  fix: string;
+  /** Components re-checked together with `component` on every cycle */
+  subtree?: string[];
+}
+
+export interface OnPushCandidate {
+  component: string;
+  componentName: string;
+  /** Descendants that could be skipped once the component is OnPush */
+  protectedDescendants: number;
+}
+
+export interface ComponentGraph {
+  nodes: ComponentGraphNode[];
+  edges: ComponentGraphEdge[];
+  roots: string[];
+  findings: ComponentGraphFinding[];
+  /** Default-strategy components ranked by how many descendants OnPush protects */
+  onPushCandidates: OnPushCandidate[];
+}
+
+interface SelectorPart {
+  element?: string;
+  attributes: string[];
+  classes: string[];
+}
+
+// A Default component this close to a root with this many re-checked
+// descendants is reported as a hot subtree
+const NEAR_ROOT_DEPTH = 1;
+const MIN_SUBTREE_SIZE = 3;
+
+export class ComponentGraphBuilder {
+  public build(
+    components: Array<{ analysis: ComponentAnalysis; elements: TemplateElementUsage[] }>,
+    routeAnalysis?: RouteAnalysis
+  ): ComponentGraph {
+    const entries = components.filter(({ analysis }) => analysis.kind === 'component');
+    const routeComponents = new Set(this.collectRouteComponents(routeAnalysis?.routes || []));
+
+    const nodes = new Map<string, ComponentGraphNode>();
+    entries.forEach(({ analysis }) => {
+      const id = `${analysis.filePath}#${analysis.componentName}`;
+      nodes.set(id, {
+        id,
+        componentName: analysis.componentName,
+        filePath: analysis.filePath,
+        selector: analysis.metadata.selector,
+        changeDetection: analysis.metadata.changeDetection === 'OnPush' ? 'OnPush' : 'Default',
+        routeEntry: routeComponents.has(analysis.componentName),
+        depth: 0,
+        descendantCount: 0,
+      });
+    });
+
+    // Link parents to the components whose selectors their templates use
+    const selectors = Array.from(nodes.values())
+      .filter((node) => node.selector)
+      .map((node) => ({ id: node.id, parts: this.parseSelector(node.selector) }));
+    const children = new Map<string, string[]>();
+    const edges: ComponentGraphEdge[] = [];
+
+    entries.forEach(({ analysis, elements }) => {
+      const from = `${analysis.filePath}#${analysis.componentName}`;
+      const linked = new Set<string>();
+      elements.forEach((element) => {
+        selectors
+          .filter(({ id, parts }) => id !== from && parts.some((part) => this.matches(part, element)))
+          .forEach(({ id }) => linked.add(id));
+      });
+      children.set(from, Array.from(linked));
+      linked.forEach((to) => edges.push({ from, to }));
+    });
+
+    const hasParent = new Set(edges.map((edge) => edge.to));
+    const roots = Array.from(nodes.values())
+      .filter((node) => node.routeEntry || !hasParent.has(node.id))
+      .map((node) => node.id);
+
+    this.assignDepths(roots, children, nodes);
+    nodes.forEach((node) => {
+      node.descendantCount = this.collectDescendants(node.id, children, () => true).length;
+    });
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges,
+      roots,
+      findings: this.findProblems(nodes, children),
+      onPushCandidates: Array.from(nodes.values())
+        .filter((node) => node.changeDetection === 'Default' && node.descendantCount > 0)
+        .sort((a, b) => b.descendantCount - a.descendantCount)
+        .map((node) => ({
+          component: node.id,
+          componentName: node.componentName,
+          protectedDescendants: node.descendantCount,
+        })),
+    };
+  }
+
+  private findProblems(
+    nodes: Map<string, ComponentGraphNode>,
+    children: Map<string, string[]>
+  ): ComponentGraphFinding[] {
+    const findings: ComponentGraphFinding[] = [];
+
+    nodes.forEach((node) => {
+      // Default children of OnPush parents only refresh when the parent does
+      (children.get(node.id) || [])
+        .map((id) => nodes.get(id)!)
+        .filter((child) => node.changeDetection === 'OnPush' && child.changeDetection === 'Default')
+        .forEach((child) => {
+          findings.push({
+            type: 'default-under-onpush',
+            severity: 'medium',
+            component: child.id,
+            filePath: child.filePath,
+            description: `Default-strategy ${child.componentName} sits under OnPush parent ${node.componentName}; it is only checked when ${node.componentName} is, so state it mutates itself may not render`,
+            fix: `Make ${child.componentName} OnPush and drive it with inputs or signals`,
+          });
+        });
+
+      // A Default component near the root drags its Default subtree into every cycle
+      if (node.changeDetection !== 'Default' || node.depth > NEAR_ROOT_DEPTH) return;
+      const subtree = this.collectDescendants(
+        node.id,
+        children,
+        (id) => nodes.get(id)!.changeDetection === 'Default'
+      );
+      if (subtree.length < MIN_SUBTREE_SIZE) return;
+
+      findings.push({
+        type: 'default-subtree',
+        severity: subtree.length >= 10 ? 'high' : 'medium',
+        component: node.id,
+        filePath: node.filePath,
+        description: `Default-strategy ${node.componentName} is re-checked on every change detection cycle together with ${subtree.length} Default descendants`,
+        fix: `Make ${node.componentName} OnPush first: it shields ${node.descendantCount} descendants`,
+        subtree: subtree.map((id) => nodes.get(id)!.componentName),
+      });
+    });
+
+    return findings;
+  }
+
+  /** Descendants reachable through children accepted by `follow` */
+  private collectDescendants(
+    id: string,
+    children: Map<string, string[]>,
+    follow: (id: string) => boolean
+  ): string[] {
+    const visited = new Set<string>([id]);
+    const stack = [id];
+    while (stack.length > 0) {
+      (children.get(stack.pop()!) || [])
+        .filter((child) => !visited.has(child) && follow(child))
+        .forEach((child) => {
+          visited.add(child);
+          stack.push(child);
+        });
+    }
+    visited.delete(id);
+    return Array.from(visited);
+  }
+
+  private assignDepths(
+    roots: string[],
+    children: Map<string, string[]>,
+    nodes: Map<string, ComponentGraphNode>
+  ): void {
+    const visited = new Set(roots);
+    let level = roots;
+    let depth = 0;
+    while (level.length > 0) {
+      const next: string[] = [];
+      level.forEach((id) => {
+        nodes.get(id)!.depth = depth;
+        (children.get(id) || [])
+          .filter((child) => !visited.has(child))
+          .forEach((child) => {
+            visited.add(child);
+            next.push(child);
+          });
+      });
+      level = next;
+      depth++;
+    }
+  }
+
+  private collectRouteComponents(routes: RouteNode[]): string[] {
+    return routes.flatMap((route) => [
+      ...(route.component ? [route.component] : []),
+      ...this.collectRouteComponents(route.children),
+    ]);
+  }
+
+  /**
+   * Parses a CSS selector list such as `app-card, button[appCard].primary`.
+   * `:not()` clauses are ignored.
+   */
+  private parseSelector(selector: string): SelectorPart[] {
+    return selector
+      .replace(/:not\([^)]*\)/g, '')
+      .split(',')
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part) => ({
+        element: /^[A-Za-z][\w-]*/.exec(part)?.[0],
+        attributes: Array.from(part.matchAll(/\[([\w.-]+)[^\]]*\]/g)).map((match) => match[1]),
+        classes: Array.from(part.matchAll(/\.([\w-]+)/g)).map((match) => match[1]),
+      }));
+  }
+
+  private matches(part: SelectorPart, element: TemplateElementUsage): boolean {
+    if (!part.element && part.attributes.length === 0 && part.classes.length === 0) {
+      return false;
+    }
+    return (
+      (!part.element || part.element === element.name) &&
+      part.attributes.every((attribute) => element.attributes.includes(attribute)) &&
+      part.classes.every((className) => element.classes.includes(className))
+    );
+  }
+}
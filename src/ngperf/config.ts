@@ -0,0 +1,391 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import type { RuleSeverity } from './rules';
+import { isRecord } from './type-guards';
+
+/**
+ * Project configuration
+ *
+ * `ngperf.config.json` or `.ngperfrc` (both JSON), found by walking up from
+ * the analyzed path. Globs are relative to the config file's directory and,
+ * like `.gitignore`, a glob without a slash matches a name at any depth.
+ */
+
+export const CONFIG_FILE_NAMES = ['ngperf.config.json', '.ngperfrc', '.ngperfrc.json'];
+
+/** `off` disables a rule; a severity replaces the severity of its findings */
+export type RuleSetting = 'off' | 'on' | RuleSeverity;
+
+export interface Thresholds {
+  /** Score points deducted per finding of each severity */
+  scoreDeductions: Record<RuleSeverity, number>;
+  /** `large-ngfor`: estimated item count above which a list is large */
+  largeListSize: number;
+  /** `multiple-subscriptions`: manual subscriptions a class may have */
+  maxManualSubscriptions: number;
+  /** `unnecessary-computation`: shortest pipe chain reported */
+  minPipeChainLength: number;
+  /** `defer-opportunity`: template length in characters that makes a component heavy */
+  largeTemplateSize: number;
+  /** Elements after this many others in a template are treated as below the fold */
+  belowFoldElementIndex: number;
+  /** Measured initial-bundle size above which a package counts as large */
+  largePackageBytes: number;
+}
+
+export type ThresholdsConfig = Partial<Omit<Thresholds, 'scoreDeductions'>> & {
+  scoreDeductions?: Partial<Record<RuleSeverity, number>>;
+};
+
+export interface ConfigOverride {
+  /** Globs of the files and directories the override applies to */
+  files: string[];
+  rules?: Record<string, RuleSetting>;
+  thresholds?: ThresholdsConfig;
+}
+
+export interface NgperfConfig {
+  /** Rule id to `off`, `on` or a severity */
+  rules?: Record<string, RuleSetting>;
+  thresholds?: ThresholdsConfig;
+  /** Only analyze files matching one of these globs */
+  include?: string[];
+  /** Added to the default excludes; `!glob` re-includes a path */
+  exclude?: string[];
+  /** Added to the libraries that make a component worth deferring */
+  heavyLibraries?: string[];
+  /** Added to the libraries reported as lazy-loading opportunities */
+  largeLibraries?: string[];
+  /** Local modules exporting custom rules, relative to the config file */
+  customRules?: string[];
+  /** Per-directory rule settings and thresholds; later overrides win */
+  overrides?: ConfigOverride[];
+}
+
+export const DEFAULT_THRESHOLDS: Thresholds = {
+  scoreDeductions: { high: 15, medium: 10, low: 5 },
+  largeListSize: 100,
+  maxManualSubscriptions: 3,
+  minPipeChainLength: 3,
+  largeTemplateSize: 5000,
+  belowFoldElementIndex: 20,
+  largePackageBytes: 50 * 1024,
+};
+
+// A trailing slash matches directories only
+export const DEFAULT_EXCLUDE = [
+  'node_modules/',
+  'dist/',
+  'build/',
+  'coverage/',
+  'e2e/',
+  'tmp/',
+  'temp/',
+  '.*/',
+];
+
+// Libraries that make a component worth deferring: charts, maps, editors, grids
+export const DEFAULT_HEAVY_LIBRARIES = [
+  'chart.js',
+  'ng2-charts',
+  'echarts',
+  'ngx-echarts',
+  'highcharts',
+  'highcharts-angular',
+  '@swimlane/ngx-charts',
+  'apexcharts',
+  'ng-apexcharts',
+  'plotly.js',
+  'd3',
+  'leaflet',
+  '@asymmetrik/ngx-leaflet',
+  'mapbox-gl',
+  'maplibre-gl',
+  '@angular/google-maps',
+  'ol',
+  'monaco-editor',
+  'ngx-monaco-editor',
+  '@ckeditor/ckeditor5-angular',
+  'quill',
+  'ngx-quill',
+  'ag-grid-angular',
+  'ag-grid-community',
+  'handsontable',
+  '@handsontable/angular',
+  '@angular/material/table',
+  'primeng/table',
+  '@fullcalendar/angular',
+  'three',
+  'pdfjs-dist',
+  'ng2-pdf-viewer',
+];
+
+// Imports reported as lazy-loading opportunities without measured sizes
+export const DEFAULT_LARGE_LIBRARIES = ['lodash', 'moment', 'rxjs', '@angular/material'];
+
+const RULE_SETTINGS: RuleSetting[] = ['off', 'on', 'high', 'medium', 'low'];
+
+export class ProjectConfig {
+  constructor(
+    private readonly config: NgperfConfig = {},
+    /** Directory globs and custom rule paths are relative to */
+    public readonly rootDir: string = process.cwd(),
+    /** Config file the settings were read from, if any */
+    public readonly filePath?: string
+  ) {}
+
+  /**
+   * Nearest config file at or above `searchFrom`
+   */
+  public static find(searchFrom: string): string | undefined {
+    let dir = resolve(searchFrom);
+    if (existsSync(dir) && statSync(dir).isFile()) {
+      dir = dirname(dir);
+    }
+
+    while (true) {
+      const found = CONFIG_FILE_NAMES.map((name) => join(dir, name)).find(
+        (candidate) => existsSync(candidate) && statSync(candidate).isFile()
+      );
+      if (found) return found;
+
+      const parent = dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  /**
+   * Reads `configPath`, or the nearest config file above `searchFrom`.
+   * Without a config file every setting has its default.
+   */
+  public static load(searchFrom: string, configPath?: string): ProjectConfig {
+    const filePath = configPath ? resolve(configPath) : this.find(searchFrom);
+    if (!filePath) {
+      const root = resolve(searchFrom);
+      return new ProjectConfig({}, existsSync(root) && statSync(root).isFile() ? dirname(root) : root);
+    }
+
+    let config: unknown;
+    try {
+      config = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read config file ${filePath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    assertValidConfig(config, filePath);
+    return new ProjectConfig(config, dirname(filePath), filePath);
+  }
+
+  public get heavyLibraries(): string[] {
+    return [...DEFAULT_HEAVY_LIBRARIES, ...(this.config.heavyLibraries || [])];
+  }
+
+  public get largeLibraries(): string[] {
+    return [...DEFAULT_LARGE_LIBRARIES, ...(this.config.largeLibraries || [])];
+  }
+
+  /** Absolute paths of the custom rule modules */
+  public get customRules(): string[] {
+    return (this.config.customRules || []).map((modulePath) => resolve(this.rootDir, modulePath));
+  }
+
+  /** Rule ids named anywhere in the config */
+  public get configuredRuleIds(): string[] {
+    const ids = [
+      ...Object.keys(this.config.rules || {}),
+      ...(this.config.overrides || []).flatMap((override) => Object.keys(override.rules || {})),
+    ];
+    return Array.from(new Set(ids));
+  }
+
+  public getRuleSettings(filePath: string): Record<string, RuleSetting> {
+    return this.getOverrides(filePath).reduce(
+      (settings, override) => ({ ...settings, ...override.rules }),
+      { ...this.config.rules }
+    );
+  }
+
+  public getThresholds(filePath?: string): Thresholds {
+    const overrides = filePath ? this.getOverrides(filePath) : [];
+    return [this.config.thresholds, ...overrides.map((override) => override.thresholds)].reduce(
+      (thresholds: Thresholds, config) => ({
+        ...thresholds,
+        ...config,
+        scoreDeductions: { ...thresholds.scoreDeductions, ...config?.scoreDeductions },
+      }),
+      DEFAULT_THRESHOLDS
+    );
+  }
+
+  /**
+   * Whether a file or directory is excluded. The last matching glob wins,
+   * so a later `!glob` re-includes what an earlier one excluded.
+   */
+  public isExcluded(path: string, isDirectory: boolean): boolean {
+    const relativePath = this.toRelativePath(path);
+    return [...DEFAULT_EXCLUDE, ...(this.config.exclude || [])].reduce((excluded, pattern) => {
+      const negated = pattern.startsWith('!');
+      const glob = negated ? pattern.slice(1) : pattern;
+      if (glob.endsWith('/') && !isDirectory) return excluded;
+      return matchesGlob(relativePath, glob.replace(/\/$/, '')) ? !negated : excluded;
+    }, false);
+  }
+
+  public isIncluded(filePath: string): boolean {
+    const include = this.config.include;
+    return !include?.length || this.matchesAny(filePath, include);
+  }
+
+  /**
+   * Effective configuration with defaults filled in. For a file, overrides
+   * that apply to it are merged in.
+   */
+  public toJSON(filePath?: string): NgperfConfig & { thresholds: Thresholds } {
+    return {
+      rules: filePath ? this.getRuleSettings(filePath) : { ...this.config.rules },
+      thresholds: this.getThresholds(filePath),
+      include: this.config.include || [],
+      exclude: [...DEFAULT_EXCLUDE, ...(this.config.exclude || [])],
+      heavyLibraries: this.heavyLibraries,
+      largeLibraries: this.largeLibraries,
+      customRules: this.customRules,
+      ...(filePath ? {} : { overrides: this.config.overrides || [] }),
+    };
+  }
+
+  private getOverrides(filePath: string): ConfigOverride[] {
+    return (this.config.overrides || []).filter((override) =>
+      this.matchesAny(filePath, override.files)
+    );
+  }
+
+  /** A glob matches a path or any directory containing it */
+  private matchesAny(path: string, patterns: string[]): boolean {
+    const segments = this.toRelativePath(path).split('/');
+    return segments.some((_, index) => {
+      const prefix = segments.slice(0, index + 1).join('/');
+      return patterns.some((pattern) => matchesGlob(prefix, pattern.replace(/\/$/, '')));
+    });
+  }
+
+  private toRelativePath(path: string): string {
+    return relative(this.rootDir, resolve(path)).split(sep).join('/');
+  }
+}
+
+/**
+ * Matches a forward-slash path against a glob with `*`, `**`, `?` and
+ * `{a,b}`. A glob without a slash matches the last path segment.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const anchored = pattern.includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`;
+  return globToRegExp(anchored).test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (pattern.startsWith('**/', index)) {
+      source += '(?:.*/)?';
+      index += 2;
+    } else if (pattern.startsWith('/**', index) && index + 3 === pattern.length) {
+      source += '(?:/.*)?';
+      index += 2;
+    } else if (pattern.startsWith('**', index)) {
+      source += '.*';
+      index += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function assertValidConfig(config: unknown, filePath: string): asserts config is NgperfConfig {
+  const problem = validateConfig(config);
+  if (problem) {
+    throw new Error(`Invalid config file ${filePath}: ${problem}`);
+  }
+}
+
+function validateConfig(config: unknown): string | undefined {
+  if (!isRecord(config)) return 'expected a JSON object';
+
+  const problem =
+    validateRuleSettings(config.rules, 'rules') ||
+    validateThresholds(config.thresholds, 'thresholds') ||
+    ['include', 'exclude', 'heavyLibraries', 'largeLibraries', 'customRules']
+      .map((key) => validateStrings(config[key], key))
+      .find(Boolean);
+  if (problem) return problem;
+
+  if (config.overrides === undefined) return undefined;
+  if (!Array.isArray(config.overrides)) return 'overrides must be an array';
+  for (const [index, override] of config.overrides.entries()) {
+    const key = `overrides[${index}]`;
+    if (!isRecord(override)) return `${key} must be an object`;
+    const overrideProblem =
+      (override.files === undefined ? `${key}.files is required` : undefined) ||
+      validateStrings(override.files, `${key}.files`) ||
+      validateRuleSettings(override.rules, `${key}.rules`) ||
+      validateThresholds(override.thresholds, `${key}.thresholds`);
+    if (overrideProblem) return overrideProblem;
+  }
+  return undefined;
+}
+
+function validateRuleSettings(rules: unknown, key: string): string | undefined {
+  if (rules === undefined) return undefined;
+  if (!isRecord(rules)) return `${key} must be an object`;
+  const invalid = Object.keys(rules).find((id) => !RULE_SETTINGS.includes(rules[id] as RuleSetting));
+  return invalid ? `${key}.${invalid} must be one of ${RULE_SETTINGS.join(', ')}` : undefined;
+}
+
+function validateThresholds(thresholds: unknown, key: string): string | undefined {
+  if (thresholds === undefined) return undefined;
+  if (!isRecord(thresholds)) return `${key} must be an object`;
+
+  for (const name of Object.keys(thresholds)) {
+    if (!(name in DEFAULT_THRESHOLDS)) return `unknown threshold ${key}.${name}`;
+    if (name !== 'scoreDeductions') {
+      if (!isNonNegativeNumber(thresholds[name])) return `${key}.${name} must be a non-negative number`;
+      continue;
+    }
+
+    const deductions = thresholds[name];
+    if (!isRecord(deductions)) return `${key}.${name} must be an object`;
+    const invalid = Object.keys(deductions).find(
+      (severity) => !(severity in DEFAULT_THRESHOLDS.scoreDeductions) || !isNonNegativeNumber(deductions[severity])
+    );
+    if (invalid) return `${key}.${name}.${invalid} must be a severity with a non-negative number`;
+  }
+  return undefined;
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0;
+}
+
+function validateStrings(value: unknown, key: string): string | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+    ? undefined
+    : `${key} must be an array of strings`;
+}
@@ -0,0 +1,421 @@
+import {
+  TemplateAttribute,
+  TemplateElement,
+  TemplateNode,
+  TemplateParser,
+  SourceSpan,
+  findPropertyReads,
+  walkTemplate,
+} from './template-parser';
+
+/**
+ * Control-flow migrator
+ *
+ * Rewrites `*ngIf`, `*ngFor` and `[ngSwitch]` to the built-in `@if`, `@for`
+ * and `@switch` blocks. `trackBy` functions become `track` expressions and
+ * `else` templates become `@else` branches. Anything it cannot convert
+ * safely is left untouched and reported in `skipped`.
+ */
+
+export interface ControlFlowMigration {
+  template: string;
+  /** Structural directives converted */
+  migrated: number;
+  skipped: Array<{ span: SourceSpan; reason: string }>;
+}
+
+// ngFor context variables and their @for equivalents
+const FOR_CONTEXT_VARIABLES: Record<string, string> = {
+  index: '$index',
+  first: '$first',
+  last: '$last',
+  even: '$even',
+  odd: '$odd',
+  count: '$count',
+};
+
+export class ControlFlowMigrator {
+  private template = '';
+  private nodes: TemplateNode[] = [];
+  private migrated = 0;
+  private skipped: ControlFlowMigration['skipped'] = [];
+  /** `<ng-template>` elements inlined as `@else` branches and removed */
+  private removed = new Set<TemplateNode>();
+
+  public migrate(template: string): ControlFlowMigration {
+    this.template = template;
+    this.nodes = new TemplateParser().parse(template).nodes;
+    this.removed = new Set();
+
+    let output = this.renderTemplate(template);
+    // else/then templates are only known once their *ngIf has been rendered,
+    // so render again to drop the ones declared before their use
+    if (this.removed.size > 0) {
+      output = this.renderTemplate(template);
+    }
+    return { template: output, migrated: this.migrated, skipped: this.skipped };
+  }
+
+  private renderTemplate(template: string): string {
+    this.migrated = 0;
+    this.skipped = [];
+    return this.renderRange(0, template.length, this.nodes);
+  }
+
+  /** Source between `start` and `end`, with `children` rendered in place */
+  private renderRange(start: number, end: number, children: TemplateNode[]): string {
+    let output = '';
+    let cursor = start;
+    children.forEach((child) => {
+      if (this.removed.has(child)) {
+        // Drop the whole line when the template was alone on it
+        output = (output + this.template.slice(cursor, child.span.start)).replace(/\n[ \t]*$/, '');
+        cursor = child.span.end;
+        return;
+      }
+      output += this.template.slice(cursor, child.span.start) + this.render(child);
+      cursor = child.span.end;
+    });
+    return output + this.template.slice(cursor, end);
+  }
+
+  private render(node: TemplateNode): string {
+    if (node.kind === 'block') {
+      const open = this.template.indexOf('{', node.parametersSpan?.end ?? node.span.start);
+      const close = this.template.lastIndexOf('}', node.span.end - 1);
+      if (open === -1 || close <= open) return this.template.slice(node.span.start, node.span.end);
+      return (
+        this.template.slice(node.span.start, open + 1) +
+        this.renderRange(open + 1, close, node.children) +
+        this.template.slice(close, node.span.end)
+      );
+    }
+    if (node.kind !== 'element') {
+      return this.template.slice(node.span.start, node.span.end);
+    }
+
+    const ngIf = this.findAttribute(node, 'structural', 'ngIf');
+    if (ngIf) return this.renderIf(node, ngIf) ?? this.renderElement(node);
+    const ngFor = this.findAttribute(node, 'structural', 'ngFor');
+    if (ngFor) return this.renderFor(node, ngFor) ?? this.renderElement(node);
+    const templateIf = node.name === 'ng-template' && this.findAttribute(node, 'property', 'ngIf');
+    if (templateIf) return this.renderTemplateIf(node, templateIf) ?? this.renderElement(node);
+    const templateFor = node.name === 'ng-template' && this.findAttribute(node, 'property', 'ngForOf');
+    if (templateFor) {
+      this.skip(templateFor, '<ng-template [ngForOf]> needs to be migrated by hand');
+      return this.renderElement(node);
+    }
+    const ngSwitch = this.findAttribute(node, 'property', 'ngSwitch');
+    if (ngSwitch) return this.renderSwitch(node, ngSwitch) ?? this.renderElement(node);
+
+    return this.renderElement(node);
+  }
+
+  private renderIf(element: TemplateElement, attr: TemplateAttribute): string | undefined {
+    const parts = splitMicrosyntax(attr.value);
+    let condition = parts[0];
+    const alias = /^([\s\S]+?)\s+as\s+(\w+)$/.exec(condition);
+    if (alias) {
+      condition = `${alias[1]}; as ${alias[2]}`;
+    }
+
+    let thenTemplate: string | undefined;
+    let elseTemplate: string | undefined;
+    for (const part of parts.slice(1)) {
+      const match = /^(then|else)\s*:?\s*(\w+)$/.exec(part);
+      if (!match) {
+        return this.skip(attr, `unsupported *ngIf expression '${part}'`);
+      }
+      if (match[1] === 'then') thenTemplate = match[2];
+      else elseTemplate = match[2];
+    }
+
+    const inlined: TemplateElement[] = [];
+    const thenBody = thenTemplate
+      ? this.inlineTemplate(attr, thenTemplate, inlined)
+      : this.renderWithout(element, attr);
+    const elseBody =
+      elseTemplate && thenBody !== undefined ? this.inlineTemplate(attr, elseTemplate, inlined) : undefined;
+    if (thenBody === undefined || (elseTemplate && elseBody === undefined)) return undefined;
+
+    inlined.forEach((template) => this.removed.add(template));
+    this.migrated++;
+    return this.wrap(element, `@if (${condition})`, thenBody, elseBody);
+  }
+
+  /** `<ng-template [ngIf]="c">` without an else branch or context variables */
+  private renderTemplateIf(element: TemplateElement, attr: TemplateAttribute): string | undefined {
+    if (element.attributes.length > 1) {
+      return this.skip(attr, '<ng-template [ngIf]> with other attributes');
+    }
+    const { open, close } = this.getContentRange(element);
+    this.migrated++;
+    return this.wrap(element, `@if (${attr.value.trim()})`, this.renderRange(open, close, element.children));
+  }
+
+  private renderFor(element: TemplateElement, attr: TemplateAttribute): string | undefined {
+    const parts = splitMicrosyntax(attr.value);
+    const head = /^let\s+(\w+)\s+of\s+([\s\S]+)$/.exec(parts[0]);
+    if (!head) {
+      return this.skip(attr, `unsupported *ngFor expression '${attr.value.trim()}'`);
+    }
+
+    const [, item, iterable] = head;
+    let track = '$index';
+    const aliases: string[] = [];
+    for (const part of parts.slice(1)) {
+      const trackBy = /^trackBy\s*:?\s*([\s\S]+)$/.exec(part);
+      const letAlias = /^let\s+(\w+)\s*=\s*(\w+)$/.exec(part);
+      const asAlias = /^(\w+)\s+as\s+(\w+)$/.exec(part);
+      if (trackBy) {
+        track = `${trackBy[1].trim()}($index, ${item})`;
+      } else if (letAlias && FOR_CONTEXT_VARIABLES[letAlias[2]]) {
+        aliases.push(`${letAlias[1]} = ${FOR_CONTEXT_VARIABLES[letAlias[2]]}`);
+      } else if (asAlias && FOR_CONTEXT_VARIABLES[asAlias[1]]) {
+        aliases.push(`${asAlias[2]} = ${FOR_CONTEXT_VARIABLES[asAlias[1]]}`);
+      } else {
+        return this.skip(attr, `unsupported *ngFor expression '${part}'`);
+      }
+    }
+
+    const body = this.renderWithout(element, attr);
+    if (body === undefined) return undefined;
+
+    this.migrated++;
+    const letClause = aliases.length > 0 ? `; let ${aliases.join(', ')}` : '';
+    return this.wrap(element, `@for (${item} of ${iterable.trim()}; track ${track}${letClause})`, body);
+  }
+
+  private renderSwitch(element: TemplateElement, attr: TemplateAttribute): string | undefined {
+    const content = element.children.filter(
+      (child) => child.kind !== 'comment' && !(child.kind === 'text' && !child.value.trim())
+    );
+    const cases = content.map((child) =>
+      child.kind === 'element'
+        ? this.findAttribute(child, 'structural', 'ngSwitchCase') ||
+          this.findAttribute(child, 'structural', 'ngSwitchDefault')
+        : undefined
+    );
+    if (cases.some((found) => !found)) {
+      return this.skip(attr, '[ngSwitch] contains content outside *ngSwitchCase/*ngSwitchDefault');
+    }
+
+    const caseBlocks = new Map<TemplateNode, string>();
+    for (let i = 0; i < content.length; i++) {
+      const child = content[i] as TemplateElement;
+      const caseAttr = cases[i]!;
+      const body = this.renderWithout(child, caseAttr);
+      if (body === undefined) return undefined;
+      const header =
+        caseAttr.name === 'ngSwitchCase' ? `@case (${caseAttr.value.trim()})` : '@default';
+      caseBlocks.set(child, this.wrap(child, header, body));
+    }
+
+    // Cases keep their own positions; the @switch wraps the element's content
+    const { open, close } = this.getContentRange(element);
+    let inner = '';
+    let cursor = open;
+    element.children.forEach((child) => {
+      inner += this.template.slice(cursor, child.span.start) + (caseBlocks.get(child) ?? this.render(child));
+      cursor = child.span.end;
+    });
+    inner += this.template.slice(cursor, close);
+
+    this.migrated++;
+    const indent = this.getIndent(element.span.start) ?? '';
+    const block = inner.includes('\n')
+      ? `\n${indent}  @switch (${attr.value.trim()}) {${reindent(inner.trimEnd())}\n${indent}  }\n${indent}`
+      : `@switch (${attr.value.trim()}) {${inner}}`;
+    return (
+      this.removeAttribute(element, attr) + block + this.template.slice(close, element.span.end)
+    );
+  }
+
+  /**
+   * `header { body }`, on separate lines when the element starts its own
+   * line, plus an `@else` branch when given
+   */
+  private wrap(element: TemplateElement, header: string, body: string, elseBody?: string): string {
+    const indent = this.getIndent(element.span.start);
+    if (indent === undefined) {
+      return `${header} {${body}}${elseBody !== undefined ? ` @else {${elseBody}}` : ''}`;
+    }
+
+    // Unwrapped container content already brings its own line breaks
+    const block = (content: string) =>
+      content.startsWith('\n') ? content : `\n${indent}  ${reindent(content)}\n${indent}`;
+    return (
+      `${header} {${block(body)}}` +
+      (elseBody !== undefined ? ` @else {${block(elseBody)}}` : '')
+    );
+  }
+
+  /**
+   * The element without the structural attribute. `<ng-container>` and
+   * `<ng-template>` without other attributes are unwrapped to their content.
+   */
+  private renderWithout(element: TemplateElement, attr: TemplateAttribute): string | undefined {
+    const others = element.attributes.filter((other) => other !== attr);
+    if (element.name === 'ng-template') {
+      return this.skip(attr, 'structural directive on <ng-template>');
+    }
+    if (element.name === 'ng-container' && others.length === 0) {
+      const { open, close } = this.getContentRange(element);
+      return this.renderRange(open, close, element.children);
+    }
+    const { open, close } = this.getContentRange(element);
+    if (open === close && element.children.length === 0) {
+      return this.removeAttribute(element, attr) + this.template.slice(close, element.span.end);
+    }
+    return (
+      this.removeAttribute(element, attr) +
+      this.renderRange(open, close, element.children) +
+      this.template.slice(close, element.span.end)
+    );
+  }
+
+  /** Content of the `<ng-template #name>` referenced by `then`/`else` */
+  private inlineTemplate(
+    attr: TemplateAttribute,
+    name: string,
+    inlined: TemplateElement[]
+  ): string | undefined {
+    let found: TemplateElement | undefined;
+    walkTemplate(this.nodes, (node) => {
+      if (
+        !found &&
+        node.kind === 'element' &&
+        node.name === 'ng-template' &&
+        node.attributes.some((a) => a.kind === 'reference' && a.name === name)
+      ) {
+        found = node;
+      }
+    });
+
+    if (!found) {
+      return this.skip(attr, `template '${name}' is not declared in this template`);
+    }
+    if (found.attributes.some((a) => a.kind !== 'reference')) {
+      return this.skip(attr, `template '${name}' has bindings or context variables`);
+    }
+
+    // Templates used anywhere else (ngTemplateOutlet, another else) stay in place
+    if (this.countReferences(name) <= 1) {
+      inlined.push(found);
+    }
+    const { open, close } = this.getContentRange(found);
+    return this.renderRange(open, close, found.children);
+  }
+
+  /** Reads of a template variable in bindings, interpolations and block parameters */
+  private countReferences(name: string): number {
+    const expressions: string[] = [];
+    walkTemplate(this.nodes, (node) => {
+      if (node.kind === 'element') {
+        node.attributes.forEach((attr) => {
+          if (attr.kind === 'static') {
+            expressions.push(...attr.interpolations.map((interpolation) => interpolation.expression));
+          } else if (attr.kind !== 'reference') {
+            expressions.push(attr.value);
+          }
+        });
+      } else if (node.kind === 'text') {
+        expressions.push(...node.interpolations.map((interpolation) => interpolation.expression));
+      } else if (node.kind === 'block') {
+        expressions.push(node.parameters);
+      } else if (node.kind === 'let') {
+        expressions.push(node.value);
+      }
+    });
+
+    return expressions.reduce(
+      (count, expression) =>
+        count + findPropertyReads(expression).filter((read) => read.name === name).length,
+      0
+    );
+  }
+
+  /** Start tag text with an attribute and its leading whitespace removed */
+  private removeAttribute(element: TemplateElement, attr: TemplateAttribute): string {
+    let start = attr.span.start;
+    while (start > element.startTagSpan.start && /\s/.test(this.template[start - 1])) start--;
+    return (
+      this.template.slice(element.startTagSpan.start, start) +
+      this.template.slice(attr.span.end, element.startTagSpan.end)
+    );
+  }
+
+  private renderElement(element: TemplateElement): string {
+    const { open, close } = this.getContentRange(element);
+    return (
+      this.template.slice(element.span.start, open) +
+      this.renderRange(open, close, element.children) +
+      this.template.slice(close, element.span.end)
+    );
+  }
+
+  /** Offsets between the end of the start tag and the closing tag */
+  private getContentRange(element: TemplateElement): { open: number; close: number } {
+    const open = element.startTagSpan.end;
+    const closeTag = this.template.lastIndexOf('</', element.span.end);
+    const close =
+      closeTag >= open && /^<\/[\w-]+\s*>$/.test(this.template.slice(closeTag, element.span.end))
+        ? closeTag
+        : element.span.end;
+    return { open, close: Math.max(open, close) };
+  }
+
+  /**
+   * Indentation of the line `offset` is on, or undefined when other content
+   * precedes it. Single-line templates (e.g. quoted strings) stay on one line.
+   */
+  private getIndent(offset: number): string | undefined {
+    if (!this.template.includes('\n')) return undefined;
+    const lineStart = this.template.lastIndexOf('\n', offset - 1) + 1;
+    const prefix = this.template.slice(lineStart, offset);
+    return /^[ \t]*$/.test(prefix) ? prefix : undefined;
+  }
+
+  private findAttribute(
+    element: TemplateElement,
+    kind: TemplateAttribute['kind'],
+    name: string
+  ): TemplateAttribute | undefined {
+    return element.attributes.find((attr) => attr.kind === kind && attr.name === name);
+  }
+
+  private skip(attr: TemplateAttribute, reason: string): undefined {
+    this.skipped.push({ span: attr.span, reason });
+    return undefined;
+  }
+}
+
+/** Splits a microsyntax expression on top-level `;` and `,` */
+function splitMicrosyntax(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if ((char === ';' || char === ',') && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+function reindent(text: string): string {
+  return text.replace(/\n/g, '\n  ');
+}
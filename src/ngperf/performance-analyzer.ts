@@ -1,59 +1,220 @@
 import * as ts from 'typescript';
-import { readFileSync, readdirSync, statSync } from 'fs';
-import { join, extname } from 'path';
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, extname, relative, resolve } from 'path';
+import {
+  SourceSpan,
+  TemplateAst,
+  TemplateAttribute,
+  TemplateInterpolation,
+  TemplateBlock,
+  TemplateNode,
+  TemplateParser,
+  findCallExpressions,
+  findPipeUsages,
+  findPropertyReads,
+  splitPipes,
+  walkTemplate,
+} from './template-parser';
+import { RouteAnalysis, RouteAnalyzer, RouteNode } from './route-analyzer';
+import { BundleFileSize, BundleStats, formatBytes } from './bundle-stats';
+import { ResourceLeakAnalyzer } from './resource-leak-analyzer';
+import { ZoneAnalyzer, getMutatedObject } from './zone-analyzer';
+import { ZonelessAnalyzer } from './zoneless-analyzer';
+import { ControlFlowMigrator } from './control-flow-migrator';
+import { createUnifiedDiff } from './text-diff';
+import { addNamedImports, applyTextEdits, getLineIndent, planAutofixes } from './autofix';
+import {
+  BUILT_IN_RULES,
+  BuiltInRuleId,
+  CustomRuleId,
+  RULES_DOCS_URL,
+  Rule,
+  RuleCategory,
+  RuleContext,
+  RuleFinding,
+  RuleSeverity,
+  assertValidFindings,
+  loadRules,
+} from './rules';
+import { DEFAULT_THRESHOLDS, ProjectConfig, RuleSetting, Thresholds } from './config';
+import { Suppression, findSuppression, parseSuppressions } from './suppressions';
+import { Baseline, BaselineEntry } from './baseline';
+import {
+  ComponentGraph,
+  ComponentGraphBuilder,
+  TemplateElementUsage,
+} from './component-graph';
 
 // Core interfaces for analysis results
+export type AngularClassKind = 'component' | 'directive' | 'pipe';
+
 export interface ComponentAnalysis {
   componentName: string;
+  kind: AngularClassKind;
   filePath: string;
   changeDetectionIssues: ChangeDetectionProblem[];
   templateIssues: TemplatePerformanceIssue[];
   subscriptionIssues: SubscriptionIssue[];
+  signalIssues: SignalIssue[];
+  zoneIssues: ZoneIssue[];
+  /** What stands between this class and zoneless change detection */
+  zoneless: ZonelessReadiness;
   bundleOptimizations: BundleOptimization[];
+  /** Measured size in the build output, when bundle stats are provided */
+  bundleSize?: BundleFileSize;
+  /** Decorator metadata and public API; raw template text is omitted */
+  metadata: Omit<ComponentMetadata, 'template' | 'templateOffset'>;
   performanceScore: number;
   recommendations: OptimizationRecommendation[];
+  /** Findings silenced by ngperf-disable comments; not scored */
+  suppressedIssues: SuppressedIssue[];
+}
+
+export interface SuppressedIssue {
+  type: string;
+  severity: RuleSeverity;
+  location: CodeLocation;
+  description: string;
+  /** Reason given in the suppression comment */
+  reason: string;
+}
+
+/** Suppression comment rules that silenced nothing */
+export interface UnusedSuppression {
+  file: string;
+  line: number;
+  column: number;
+  rules: string[];
+  reason: string;
 }
 
+export type ChangeDetectionProblemType =
+  | 'missing-onpush'
+  | 'function-in-template'
+  | 'object-comparison'
+  | 'unnecessary-computation'
+  | 'impure-pipe'
+  | 'expensive-pipe-transform'
+  | 'onpush-stale-view';
+
 export interface ChangeDetectionProblem {
-  type:
-    | 'missing-onpush'
-    | 'function-in-template'
-    | 'object-comparison'
-    | 'unnecessary-computation';
+  type: ChangeDetectionProblemType | CustomRuleId;
   severity: 'high' | 'medium' | 'low';
   location: CodeLocation;
   description: string;
   estimatedImpact: string;
   fix: string;
+  autofix?: Autofix;
 }
 
+export type TemplateIssueType =
+  | 'missing-trackby'
+  | 'suboptimal-trackby'
+  | 'async-pipe-opportunity'
+  | 'expensive-pipe'
+  | 'large-ngfor'
+  | 'image-missing-ngsrc'
+  | 'image-missing-dimensions'
+  | 'image-missing-priority'
+  | 'image-missing-lazy-loading'
+  | 'media-missing-lazy-loading'
+  | 'defer-opportunity'
+  | 'defer-missing-placeholder'
+  | 'defer-missing-loading'
+  | 'defer-immediate-trigger'
+  | 'legacy-control-flow';
+
 export interface TemplatePerformanceIssue {
-  type:
-    | 'missing-trackby'
-    | 'suboptimal-trackby'
-    | 'async-pipe-opportunity'
-    | 'expensive-pipe'
-    | 'large-ngfor';
+  type: TemplateIssueType | CustomRuleId;
   severity: 'high' | 'medium' | 'low';
+  /** Set to `media` for image, iframe and video loading rules */
+  category?: 'media';
   location: CodeLocation;
   description: string;
   elementCount?: number;
+  /** Measured bytes a `@defer` would move out of the initial chunks */
+  estimatedBytes?: number;
   fix: string;
+  autofix?: Autofix;
 }
 
+export type SubscriptionIssueType =
+  | 'manual-subscription'
+  | 'memory-leak'
+  | 'multiple-subscriptions';
+
 export interface SubscriptionIssue {
-  type: 'manual-subscription' | 'memory-leak' | 'multiple-subscriptions';
+  type: SubscriptionIssueType | CustomRuleId;
+  severity: 'high' | 'medium' | 'low';
+  location: CodeLocation;
+  description: string;
+  fix: string;
+  autofix?: Autofix;
+}
+
+export type SignalIssueType =
+  | 'effect-writes-signal'
+  | 'computed-non-signal-call'
+  | 'signal-read-in-loop'
+  | 'tosignal-missing-initial-value'
+  | 'subscription-to-signal';
+
+export interface SignalIssue {
+  type: SignalIssueType | CustomRuleId;
+  severity: 'high' | 'medium' | 'low';
+  location: CodeLocation;
+  description: string;
+  fix: string;
+}
+
+/**
+ * What a callback needs once it runs outside the Angular zone: nothing when
+ * it only touches the DOM or signals, otherwise a way to refresh the view
+ */
+export type ZoneChangeDetection = 'none' | 'markForCheck' | 'detectChanges';
+
+export type ZoneIssueType =
+  | 'zone-interval'
+  | 'zone-animation-frame'
+  | 'zone-hot-listener'
+  | 'zone-websocket'
+  | 'zone-third-party-init';
+
+export interface ZoneIssue {
+  type: ZoneIssueType | CustomRuleId;
+  severity: 'high' | 'medium' | 'low';
+  location: CodeLocation;
+  description: string;
+  fix: string;
+  changeDetectionAfterMove: ZoneChangeDetection;
+}
+
+export type ZonelessVerdict = 'ready' | 'needs-work' | 'blocked';
+
+export interface ZonelessBlocker {
+  type:
+    | 'default-change-detection'
+    | 'async-state-mutation'
+    | 'zone-stability'
+    | 'application-tick';
   severity: 'high' | 'medium' | 'low';
   location: CodeLocation;
   description: string;
   fix: string;
 }
 
+export interface ZonelessReadiness {
+  /** `blocked` with any high-severity blocker, `needs-work` with any other */
+  verdict: ZonelessVerdict;
+  blockers: ZonelessBlocker[];
+}
+
 export interface BundleOptimization {
   type: 'lazy-loading' | 'tree-shaking' | 'code-splitting';
   description: string;
   estimatedSizeReduction: string;
   implementation: string;
+  location?: CodeLocation;
 }
 
 export interface OptimizationRecommendation {
@@ -67,28 +228,98 @@ export interface OptimizationRecommendation {
 
 export interface CodeLocation {
   file: string;
+  /** 1-based start position */
   line: number;
   column: number;
+  /** 1-based end position (exclusive column) */
+  endLine: number;
+  endColumn: number;
   snippet: string;
 }
 
+/** Replaces `start`..`end` (offsets into the file's text) with `newText` */
+export interface TextEdit {
+  filePath: string;
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/** Edits that implement a finding's `fix`, applied by `ngperf fix` */
+export interface Autofix {
+  description: string;
+  edits: TextEdit[];
+}
+
 export interface ComponentInfo {
   name: string;
+  kind: AngularClassKind;
   filePath: string;
   templatePath?: string;
   sourceCode: string;
   templateCode?: string;
+  /** Offset of an inline template's first character within `sourceCode` */
+  templateOffset?: number;
   metadata: ComponentMetadata;
 }
 
 export interface ComponentMetadata {
   selector: string;
   templateUrl?: string;
+  template?: string;
+  templateOffset?: number;
+  styleUrl?: string;
   styleUrls?: string[];
+  styles?: string[];
   changeDetection?: string;
-  inputs: string[];
-  outputs: string[];
+  inputs: ComponentInput[];
+  outputs: ComponentOutput[];
   providers: string[];
+  viewProviders?: string[];
+  host?: HostBinding[];
+  /** Only set when the decorator specifies it explicitly */
+  standalone?: boolean;
+  imports?: string[];
+  /** Name a @Pipe is used under in templates */
+  pipeName?: string;
+  /** False for `pure: false` pipes */
+  pure?: boolean;
+}
+
+export type ApiDeclarationSource = 'decorator' | 'signal' | 'model' | 'metadata';
+
+export interface ComponentInput {
+  /** Class property name */
+  name: string;
+  /** Public binding name when it differs from the property name */
+  alias?: string;
+  required: boolean;
+  source: ApiDeclarationSource;
+}
+
+export interface ComponentOutput {
+  name: string;
+  alias?: string;
+  source: ApiDeclarationSource;
+}
+
+export interface HostBinding {
+  type: 'property' | 'listener' | 'attribute';
+  /** Binding target, e.g. `class.active`, `window:resize` or `role` */
+  name: string;
+  /** Bound expression, handler call or static attribute value */
+  value: string;
+  source: 'metadata' | 'decorator';
+}
+
+export interface PipeInfo {
+  name: string;
+  className: string;
+  filePath: string;
+  pure: boolean;
+  /** Costly operations found in `transform`, e.g. `sort()` or `JSON.stringify` */
+  expensiveOperations: string[];
+  location: CodeLocation;
 }
 
 export interface ProjectSummary {
@@ -98,104 +329,533 @@ export interface ProjectSummary {
   analysisErrors: number;
   issueBreakdown: Record<string, number>;
   topIssues: Array<{ type: string; count: number }>;
+  /** Percentage of analyzed classes ready for zoneless change detection */
+  zonelessReadiness: number;
+  /** Findings silenced by ngperf-disable comments, not part of totalIssues */
+  suppressedIssues: number;
+  /** Stale suppressions, with `reportUnusedDisables` */
+  unusedDisables?: UnusedSuppression[];
+  /** Comparison with `baselinePath`; issue counts then cover new issues only */
+  baseline?: {
+    file: string;
+    newIssues: number;
+    baselinedIssues: number;
+    /** Baseline entries no longer found, removed by `ngperf baseline update` */
+    fixed: BaselineEntry[];
+  };
+}
+
+export interface TemplateSource {
+  componentName: string;
+  /** Component file for inline templates, otherwise the templateUrl file */
+  filePath: string;
+  template: string;
+  /** Offset of the template in `filePath` */
+  offset: number;
+}
+
+export interface ControlFlowMigrationResult {
+  files: Array<{ filePath: string; migrated: number; diff: string }>;
+  migrated: number;
+  skipped: Array<{ filePath: string; line: number; column: number; reason: string }>;
+}
+
+export interface AutofixResult {
+  files: Array<{ filePath: string; diff: string }>;
+  applied: Array<{ type: string; location: CodeLocation; description: string }>;
+  /** Fixes skipped because they overlap an earlier fix */
+  conflicts: Array<{ type: string; location: CodeLocation; description: string }>;
+}
+
+export interface AnalysisOptions {
+  /**
+   * tsconfig.json (or a directory containing one) used to build a ts.Program
+   * for type-aware analysis
+   */
+  tsconfigPath?: string;
+  /**
+   * esbuild metafile or webpack stats JSON (`ng build --stats-json`) used to
+   * replace size estimates with measured bytes
+   */
+  statsPath?: string;
+  /** Local modules exporting custom rules */
+  rules?: string[];
+  /**
+   * ngperf.config.json or .ngperfrc; by default the nearest one above the
+   * analyzed path
+   */
+  configPath?: string;
+  /** List ngperf-disable comments that no longer suppress anything */
+  reportUnusedDisables?: boolean;
+  /** Baseline file; findings recorded in it are left out of the results */
+  baselinePath?: string;
+}
+
+const OBSERVABLE_TYPE_NAMES = [
+  'Observable',
+  'Subject',
+  'BehaviorSubject',
+  'ReplaySubject',
+  'AsyncSubject',
+  'EventEmitter',
+];
+
+// Sources that never complete on their own
+const LONG_LIVED_TYPE_NAMES = ['Subject', 'BehaviorSubject', 'ReplaySubject', 'Store'];
+
+const SIGNAL_TYPE_NAMES = [
+  'Signal',
+  'WritableSignal',
+  'InputSignal',
+  'InputSignalWithTransform',
+  'ModelSignal',
+];
+
+const ANGULAR_CLASS_DECORATORS: Record<string, AngularClassKind> = {
+  Component: 'component',
+  Directive: 'directive',
+  Pipe: 'pipe',
+};
+
+// Built-in pipes that are impure; `async` is impure too but designed for it
+const BUILTIN_IMPURE_PIPES = ['json', 'keyvalue', 'slice'];
+
+// Triggers that need a @placeholder to observe when no element is referenced
+const PLACEHOLDER_TRIGGERS = ['viewport', 'interaction', 'hover'];
+
+// Component known from a project pre-scan, for cross-file checks
+interface RegisteredComponent {
+  className: string;
+  filePath: string;
+  onPush: boolean;
+  /** Imports from the configured heavy libraries */
+  heavyImports: string[];
+  /** Template length in characters */
+  templateSize: number;
 }
 
+const SIGNAL_FACTORIES = [
+  'signal',
+  'computed',
+  'input',
+  'model',
+  'linkedSignal',
+  'toSignal',
+  'viewChild',
+  'viewChildren',
+  'contentChild',
+  'contentChildren',
+];
+
 // Main Performance Analyzer Class
 export class PerformanceAnalyzer {
   private sourceFile!: ts.SourceFile;
   private templateContent!: string;
+  private templateAst!: TemplateAst;
   private componentInfo!: ComponentInfo;
+  private componentClass!: ts.ClassDeclaration;
+
+  // Only set while analyzing a file that belongs to `program`
+  private activeTypeChecker?: ts.TypeChecker;
+  private pipeRegistry = new Map<string, PipeInfo>();
+  /** Components keyed by element selector */
+  private componentRegistry = new Map<string, RegisteredComponent>();
+  /** Class names of components rendered directly by routes */
+  private routeComponents = new Set<string>();
+  // Elements used by each analyzed template, keyed by `<filePath>#<ClassName>`
+  private templateElements = new Map<string, TemplateElementUsage[]>();
+  private bundleStats?: BundleStats;
+  private rules: Rule[] = this.createBuiltInRules();
+  // Built-in findings of the class being analyzed, computed once per category
+  private builtInFindings = new Map<RuleCategory, Array<RuleFinding & { type: string }>>();
+  private config = new ProjectConfig();
+  // Settings for the file being analyzed, with directory overrides applied
+  private thresholds: Thresholds = DEFAULT_THRESHOLDS;
+  private ruleSettings: Record<string, RuleSetting> = {};
+  // Suppression comments per file, parsed on first use
+  private suppressions = new Map<string, Suppression[]>();
+
+  constructor(
+    private typeChecker?: ts.TypeChecker,
+    private program?: ts.Program
+  ) {
+    if (!this.typeChecker && this.program) {
+      this.typeChecker = this.program.getTypeChecker();
+    }
+  }
 
-  constructor(private typeChecker?: ts.TypeChecker) {}
+  /**
+   * Analyzes one Angular class in a file: the class named `className`, or
+   * the first @Component, @Directive or @Pipe class when no name is given
+   */
+  public analyzeComponent(componentPath: string, className?: string): ComponentAnalysis {
+    const analyses = this.analyzeFile(componentPath);
+    const analysis = className
+      ? analyses.find((candidate) => candidate.componentName === className)
+      : analyses[0];
+
+    if (!analysis) {
+      throw new Error(
+        className
+          ? `No Angular class named ${className} found in ${componentPath}`
+          : `No @Component, @Directive or @Pipe class found in ${componentPath}`
+      );
+    }
+    return analysis;
+  }
 
-  public analyzeComponent(componentPath: string): ComponentAnalysis {
-    this.componentInfo = this.parseComponentFile(componentPath);
-    this.sourceFile = ts.createSourceFile(
-      this.componentInfo.filePath,
-      this.componentInfo.sourceCode,
-      ts.ScriptTarget.Latest,
-      true
+  /**
+   * Analyzes every @Component, @Directive and @Pipe class in a file.
+   * File-level bundle findings (imports, measured size) are attributed to
+   * the first class so they are not counted once per class.
+   */
+  public analyzeFile(filePath: string): ComponentAnalysis[] {
+    const programSourceFile = this.program?.getSourceFile(filePath);
+    this.sourceFile =
+      programSourceFile ||
+      ts.createSourceFile(
+        filePath,
+        readFileSync(filePath, 'utf8'),
+        ts.ScriptTarget.Latest,
+        true
+      );
+    // A checker can only answer questions about nodes from its own program
+    this.activeTypeChecker = programSourceFile ? this.typeChecker : undefined;
+    this.thresholds = this.config.getThresholds(filePath);
+    this.ruleSettings = this.config.getRuleSettings(filePath);
+    this.registerPipesFromSource(this.sourceFile, filePath);
+    this.registerComponentsFromSource(this.sourceFile, filePath);
+    this.getSuppressions(filePath, this.sourceFile.text);
+
+    return this.sourceFile.statements
+      .filter(
+        (statement): statement is ts.ClassDeclaration =>
+          ts.isClassDeclaration(statement) &&
+          !!statement.name &&
+          !!this.getAngularDecorator(statement)
+      )
+      .map((classDeclaration, index) =>
+        this.analyzeClass(filePath, classDeclaration, index === 0)
+      );
+  }
+
+  private analyzeClass(
+    filePath: string,
+    classDeclaration: ts.ClassDeclaration,
+    includeFileFindings: boolean
+  ): ComponentAnalysis {
+    this.componentClass = classDeclaration;
+    this.componentInfo = this.parseComponentFile(
+      filePath,
+      this.sourceFile,
+      classDeclaration
+    );
+    this.templateAst = new TemplateParser().parse(
+      this.componentInfo.templateCode || ''
+    );
+    if (this.componentInfo.templatePath) {
+      this.getSuppressions(this.componentInfo.templatePath, this.componentInfo.templateCode);
+    }
+    this.templateElements.set(
+      `${filePath}#${this.componentInfo.name}`,
+      this.collectTemplateElements()
     );
 
-    const changeDetectionIssues = this.analyzeChangeDetection();
-    const templateIssues = this.analyzeTemplate();
-    const subscriptionIssues = this.analyzeSubscriptions();
-    const bundleOptimizations = this.analyzeBundleOptimizations();
+    const {
+      changeDetectionIssues,
+      templateIssues,
+      subscriptionIssues,
+      signalIssues,
+      zoneIssues,
+      suppressedIssues,
+    } = this.runRules();
+    const zoneless = this.analyzeZoneless();
+    const bundleOptimizations = includeFileFindings
+      ? this.analyzeBundleOptimizations()
+      : [];
 
     const performanceScore = this.calculatePerformanceScore(
       changeDetectionIssues,
       templateIssues,
-      subscriptionIssues
+      subscriptionIssues,
+      signalIssues,
+      zoneIssues
     );
 
     const recommendations = this.generateRecommendations(
       changeDetectionIssues,
       templateIssues,
       subscriptionIssues,
+      signalIssues,
+      zoneIssues,
       bundleOptimizations
     );
 
     return {
       componentName: this.componentInfo.name,
+      kind: this.componentInfo.kind,
       filePath: this.componentInfo.filePath,
       changeDetectionIssues,
       templateIssues,
       subscriptionIssues,
+      signalIssues,
+      zoneIssues,
+      zoneless,
       bundleOptimizations,
+      bundleSize: includeFileFindings
+        ? this.bundleStats?.getFileSize(this.componentInfo.filePath)
+        : undefined,
+      metadata: this.getPublicMetadata(),
       performanceScore,
       recommendations,
+      suppressedIssues,
     };
   }
 
-  private parseComponentFile(filePath: string): ComponentInfo {
-    const sourceCode = readFileSync(filePath, 'utf8');
-    const sourceFile = ts.createSourceFile(
-      filePath,
-      sourceCode,
-      ts.ScriptTarget.Latest,
-      true
-    );
+  /**
+   * Rule ids for the built-in finding types. The checks of a category run
+   * together, once per class, the first time one of its rules is enabled;
+   * each rule then picks out its own findings.
+   */
+  private createBuiltInRules(): Rule[] {
+    const checks: Record<RuleCategory, () => Array<RuleFinding & { type: string }>> = {
+      'change-detection': () => this.analyzeChangeDetection(),
+      template: () => this.analyzeTemplate(),
+      subscription: () => this.analyzeSubscriptions(),
+      signal: () => this.analyzeSignals(),
+      zone: () => this.analyzeZone(),
+    };
 
-    let componentName = '';
-    let metadata: ComponentMetadata = {
-      selector: '',
-      inputs: [],
-      outputs: [],
-      providers: [],
+    return (Object.keys(BUILT_IN_RULES) as BuiltInRuleId[]).map((id) => {
+      const { category, severity, description } = BUILT_IN_RULES[id];
+      return {
+        id,
+        category,
+        severity,
+        description,
+        docsUrl: RULES_DOCS_URL,
+        check: () => {
+          if (!this.builtInFindings.has(category)) {
+            this.builtInFindings.set(category, checks[category]());
+          }
+          return this.builtInFindings.get(category)!.filter((finding) => finding.type === id);
+        },
+      };
+    });
+  }
+
+  /**
+   * Runs every rule against the current class. Findings are filed under
+   * their rule's category with the rule id as `type`.
+   */
+  private runRules(): {
+    changeDetectionIssues: ChangeDetectionProblem[];
+    templateIssues: TemplatePerformanceIssue[];
+    subscriptionIssues: SubscriptionIssue[];
+    signalIssues: SignalIssue[];
+    zoneIssues: ZoneIssue[];
+    suppressedIssues: SuppressedIssue[];
+  } {
+    const results = {
+      changeDetectionIssues: [] as ChangeDetectionProblem[],
+      templateIssues: [] as TemplatePerformanceIssue[],
+      subscriptionIssues: [] as SubscriptionIssue[],
+      signalIssues: [] as SignalIssue[],
+      zoneIssues: [] as ZoneIssue[],
+      suppressedIssues: [] as SuppressedIssue[],
     };
+    const context = this.createRuleContext();
+    this.builtInFindings.clear();
 
-    const visit = (node: ts.Node) => {
-      if (ts.isClassDeclaration(node) && node.name) {
-        componentName = node.name.text;
+    this.rules.forEach((rule) => {
+      const setting = this.ruleSettings[rule.id];
+      if (setting === 'off') return;
 
-        // Extract @Component decorator
-        let decorators: readonly ts.Decorator[] | undefined;
-        if (ts.canHaveDecorators(node)) {
-          decorators = ts.getDecorators(node);
-        }
-        const decorator = decorators?.find(
-          (d) =>
-            ts.isDecorator(d) &&
-            ts.isCallExpression(d.expression) &&
-            ts.isIdentifier(d.expression.expression) &&
-            d.expression.expression.text === 'Component'
+      let findings: RuleFinding[];
+      try {
+        const result: unknown = rule.check(context);
+        assertValidFindings(result);
+        findings = result;
+      } catch (error) {
+        console.warn(
+          `Rule ${rule.id} failed on ${this.componentInfo.name}:`,
+          error instanceof Error ? error.message : error
+        );
+        return;
+      }
+
+      findings.forEach((rawFinding) => {
+        // Custom findings may only give the start of their location
+        const location: Partial<CodeLocation> & Pick<CodeLocation, 'file' | 'line'> =
+          rawFinding.location;
+        const finding = {
+          ...rawFinding,
+          location: { column: 1, endLine: location.line, endColumn: 1, snippet: '', ...location },
+        };
+        const severity = setting && setting !== 'on' ? setting : finding.severity ?? rule.severity;
+        const issue = { ...finding, type: rule.id, severity };
+        const suppression = findSuppression(
+          this.getSuppressions(finding.location.file),
+          rule.id,
+          finding.location.line
         );
+        if (suppression) {
+          suppression.used.add(rule.id);
+          results.suppressedIssues.push({
+            type: rule.id,
+            severity,
+            location: finding.location,
+            description: finding.description,
+            reason: suppression.reason,
+          });
+          return;
+        }
 
-        if (decorator && ts.isCallExpression(decorator.expression)) {
-          const arg = decorator.expression.arguments[0];
-          if (ts.isObjectLiteralExpression(arg)) {
-            metadata = this.parseComponentMetadata(arg);
-          }
+        switch (rule.category) {
+          case 'change-detection':
+            results.changeDetectionIssues.push({ estimatedImpact: '', ...issue });
+            break;
+          case 'template':
+            results.templateIssues.push(issue);
+            break;
+          case 'subscription':
+            results.subscriptionIssues.push(issue);
+            break;
+          case 'signal':
+            results.signalIssues.push(issue);
+            break;
+          case 'zone':
+            // Custom zone rules don't say what a moved callback needs
+            results.zoneIssues.push({ changeDetectionAfterMove: 'none', ...issue });
+            break;
+        }
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Suppression comments of a file, parsed once. Every analyzed file and
+   * template is parsed up front, so stale comments in files without findings
+   * are reported too.
+   */
+  private getSuppressions(filePath: string, text?: string): Suppression[] {
+    if (!this.suppressions.has(filePath)) {
+      if (text === undefined) {
+        try {
+          text = readFileSync(filePath, 'utf8');
+        } catch {
+          text = '';
         }
       }
-      ts.forEachChild(node, visit);
+
+      const { suppressions, problems } = parseSuppressions(text, filePath);
+      problems.forEach((problem) =>
+        console.warn(
+          `Ignoring suppression at ${problem.filePath}:${problem.line}:${problem.column}: ${problem.message}`
+        )
+      );
+      this.suppressions.set(filePath, suppressions);
+    }
+    return this.suppressions.get(filePath)!;
+  }
+
+  /**
+   * Rules of analyzed suppression comments that silenced no finding
+   */
+  public getUnusedSuppressions(): UnusedSuppression[] {
+    return Array.from(this.suppressions.values())
+      .flat()
+      .map((suppression) => ({
+        file: suppression.filePath,
+        line: suppression.line,
+        column: suppression.column,
+        rules: suppression.rules.filter((rule) => !suppression.used.has(rule)),
+        reason: suppression.reason,
+      }))
+      .filter((unused) => unused.rules.length > 0);
+  }
+
+  private createRuleContext(): RuleContext {
+    const template = this.componentInfo.templateCode;
+    return {
+      filePath: this.componentInfo.filePath,
+      className: this.componentInfo.name,
+      kind: this.componentInfo.kind,
+      sourceFile: this.sourceFile,
+      classDeclaration: this.componentClass,
+      metadata: this.componentInfo.metadata,
+      template: template
+        ? {
+            code: template,
+            ast: this.templateAst,
+            filePath: this.componentInfo.templatePath || this.componentInfo.filePath,
+          }
+        : undefined,
+      typeChecker: this.activeTypeChecker,
+      getNodeLocation: (node) => this.getNodeLocation(node),
+      getTemplateLocation: (start, end) => this.getTemplateLocation(template || '', start, end),
+    };
+  }
+
+  private getPublicMetadata(): ComponentAnalysis['metadata'] {
+    const { template, templateOffset, ...metadata } = this.componentInfo.metadata;
+    return metadata;
+  }
+
+  /**
+   * Applies a project config: rule settings, thresholds and library lists
+   */
+  public setConfig(config: ProjectConfig): void {
+    this.config = config;
+  }
+
+  public getConfig(): ProjectConfig {
+    return this.config;
+  }
+
+  /**
+   * Uses measured sizes from a build's stats file for bundle findings
+   */
+  public setBundleStats(stats: BundleStats): void {
+    this.bundleStats = stats;
+  }
+
+  private parseComponentFile(
+    filePath: string,
+    sourceFile: ts.SourceFile,
+    classDeclaration: ts.ClassDeclaration
+  ): ComponentInfo {
+    const sourceCode = sourceFile.text;
+
+    let kind: AngularClassKind = 'component';
+    let metadata: ComponentMetadata = {
+      selector: '',
+      inputs: [],
+      outputs: [],
+      providers: [],
     };
 
-    visit(sourceFile);
+    // Extract @Component, @Directive or @Pipe decorator
+    const angularDecorator = this.getAngularDecorator(classDeclaration);
+    if (angularDecorator) {
+      kind = angularDecorator.kind;
+      const arg = angularDecorator.decorator.arguments[0];
+      if (arg && ts.isObjectLiteralExpression(arg)) {
+        metadata = this.parseComponentMetadata(arg);
+      }
+    }
+    this.collectMemberApi(classDeclaration, metadata);
 
     let templateCode = '';
-    if (metadata.templateUrl) {
-      const templatePath = join(filePath, '..', metadata.templateUrl);
+    let templateOffset: number | undefined;
+    let templatePath: string | undefined;
+    if (metadata.template !== undefined) {
+      templateCode = metadata.template;
+      templateOffset = metadata.templateOffset;
+    } else if (metadata.templateUrl) {
+      templatePath = join(filePath, '..', metadata.templateUrl);
       try {
         templateCode = readFileSync(templatePath, 'utf8');
       } catch (error) {
@@ -204,10 +864,13 @@ export class PerformanceAnalyzer {
     }
 
     return {
-      name: componentName,
+      name: classDeclaration.name?.text || '',
+      kind,
       filePath,
+      templatePath,
       sourceCode,
       templateCode,
+      templateOffset,
       metadata,
     };
   }
@@ -228,16 +891,77 @@ export class PerformanceAnalyzer {
 
         if (name === 'selector' && ts.isStringLiteral(prop.initializer)) {
           metadata.selector = prop.initializer.text;
+        } else if (name === 'name' && ts.isStringLiteral(prop.initializer)) {
+          metadata.pipeName = prop.initializer.text;
+        } else if (name === 'pure') {
+          metadata.pure = prop.initializer.kind !== ts.SyntaxKind.FalseKeyword;
         } else if (
           name === 'templateUrl' &&
           ts.isStringLiteral(prop.initializer)
         ) {
           metadata.templateUrl = prop.initializer.text;
+        } else if (
+          name === 'template' &&
+          ts.isStringLiteralLike(prop.initializer)
+        ) {
+          // Keep the raw source text so template offsets map 1:1 onto the .ts file
+          metadata.template = this.getRawLiteralText(prop.initializer);
+          metadata.templateOffset = prop.initializer.getStart() + 1;
+        } else if (
+          name === 'styleUrl' &&
+          ts.isStringLiteralLike(prop.initializer)
+        ) {
+          metadata.styleUrl = prop.initializer.text;
+          metadata.styleUrls = [...(metadata.styleUrls || []), prop.initializer.text];
+        } else if (
+          name === 'styleUrls' &&
+          ts.isArrayLiteralExpression(prop.initializer)
+        ) {
+          metadata.styleUrls = [
+            ...(metadata.styleUrls || []),
+            ...this.getStringLiterals(prop.initializer),
+          ];
+        } else if (name === 'styles') {
+          if (ts.isStringLiteralLike(prop.initializer)) {
+            metadata.styles = [prop.initializer.text];
+          } else if (ts.isArrayLiteralExpression(prop.initializer)) {
+            metadata.styles = this.getStringLiterals(prop.initializer);
+          }
         } else if (
           name === 'changeDetection' &&
           ts.isPropertyAccessExpression(prop.initializer)
         ) {
           metadata.changeDetection = prop.initializer.name.text;
+        } else if (
+          (name === 'inputs' || name === 'outputs') &&
+          ts.isArrayLiteralExpression(prop.initializer)
+        ) {
+          this.parseMetadataBindings(prop.initializer, name, metadata);
+        } else if (
+          (name === 'providers' || name === 'viewProviders') &&
+          ts.isArrayLiteralExpression(prop.initializer)
+        ) {
+          metadata[name] = prop.initializer.elements.map((element) =>
+            this.getProviderName(element)
+          );
+        } else if (
+          name === 'host' &&
+          ts.isObjectLiteralExpression(prop.initializer)
+        ) {
+          metadata.host = [
+            ...(metadata.host || []),
+            ...this.parseHostMetadata(prop.initializer),
+          ];
+        } else if (name === 'standalone') {
+          metadata.standalone =
+            prop.initializer.kind !== ts.SyntaxKind.FalseKeyword;
+        } else if (
+          name === 'imports' &&
+          ts.isArrayLiteralExpression(prop.initializer)
+        ) {
+          metadata.imports = prop.initializer.elements.map((element) =>
+            element.getText()
+          );
         }
       }
     });
@@ -245,61 +969,605 @@ export class PerformanceAnalyzer {
     return metadata;
   }
 
-  private analyzeChangeDetection(): ChangeDetectionProblem[] {
-    const issues: ChangeDetectionProblem[] = [];
+  /**
+   * Parses decorator-level `inputs`/`outputs` arrays: `'name'`,
+   * `'name: alias'` or `{ name, alias, required }`
+   */
+  private parseMetadataBindings(
+    array: ts.ArrayLiteralExpression,
+    kind: 'inputs' | 'outputs',
+    metadata: ComponentMetadata
+  ): void {
+    array.elements.forEach((element) => {
+      let name: string | undefined;
+      let alias: string | undefined;
+      let required = false;
+
+      if (ts.isStringLiteralLike(element)) {
+        [name, alias] = element.text.split(':').map((part) => part.trim());
+      } else if (ts.isObjectLiteralExpression(element)) {
+        name = this.getObjectStringProperty(element, 'name');
+        alias = this.getObjectStringProperty(element, 'alias');
+        required = this.getObjectProperty(element, 'required')?.kind === ts.SyntaxKind.TrueKeyword;
+      }
+      if (!name) return;
 
-    // Check if OnPush is missing - but only for components that would benefit from it
-    if (
-      !this.componentInfo.metadata.changeDetection ||
-      this.componentInfo.metadata.changeDetection !== 'OnPush'
-    ) {
-      if (this.shouldRecommendOnPush()) {
-        issues.push({
-          type: 'missing-onpush',
-          severity: 'high',
-          location: this.getComponentDecoratorLocation(),
-          description: 'Component uses default change detection strategy',
-          estimatedImpact: '60% reduction in change detection cycles',
-          fix: 'Add ChangeDetectionStrategy.OnPush to component decorator',
-        });
+      alias = alias && alias !== name ? alias : undefined;
+      if (kind === 'inputs') {
+        metadata.inputs.push({ name, alias, required, source: 'metadata' });
+      } else {
+        metadata.outputs.push({ name, alias, source: 'metadata' });
       }
-    }
+    });
+  }
 
-    // Check for function calls in template
-    if (this.componentInfo.templateCode) {
-      const functionCalls = this.findFunctionCallsInTemplate(
-        this.componentInfo.templateCode
-      );
-      functionCalls.forEach((call) => {
-        issues.push({
-          type: 'function-in-template',
-          severity: 'high',
-          location: call.location,
-          description: `Function call '${call.functionName}' in template causes unnecessary re-execution`,
-          estimatedImpact:
-            'Significant performance degradation on each change detection',
-          fix: 'Move function call to component property or use pipe',
-        });
-      });
-    }
+  /**
+   * Parses the `host` object: `[prop]` bindings, `(event)` listeners and
+   * static attributes
+   */
+  private parseHostMetadata(host: ts.ObjectLiteralExpression): HostBinding[] {
+    const bindings: HostBinding[] = [];
 
-    // Check for object comparisons in ngIf
-    if (this.componentInfo.templateCode) {
-      const objectComparisons = this.findObjectComparisonsInTemplate(
-        this.componentInfo.templateCode
-      );
-      objectComparisons.forEach((comparison) => {
-        issues.push({
-          type: 'object-comparison',
-          severity: 'medium',
-          location: comparison.location,
-          description: `Object comparison in template: ${comparison.expression}`,
-          estimatedImpact:
-            'Unnecessary re-renders when object references change',
-          fix: 'Use trackBy function or compare primitive values',
-        });
-      });
-    }
+    host.properties.forEach((prop) => {
+      if (
+        !ts.isPropertyAssignment(prop) ||
+        !ts.isStringLiteralLike(prop.initializer) ||
+        !(ts.isStringLiteralLike(prop.name) || ts.isIdentifier(prop.name))
+      ) {
+        return;
+      }
+
+      const key = prop.name.text;
+      const value = prop.initializer.text;
+      const property = /^\[(.+)\]$/.exec(key);
+      const listener = /^\((.+)\)$/.exec(key);
+
+      if (property) {
+        bindings.push({ type: 'property', name: property[1], value, source: 'metadata' });
+      } else if (listener) {
+        bindings.push({ type: 'listener', name: listener[1], value, source: 'metadata' });
+      } else {
+        bindings.push({ type: 'attribute', name: key, value, source: 'metadata' });
+      }
+    });
+
+    return bindings;
+  }
+
+  /**
+   * Collects inputs, outputs and host bindings declared on class members:
+   * @Input/@Output/@HostBinding/@HostListener and input()/output()/model()
+   */
+  private collectMemberApi(
+    classDeclaration: ts.ClassDeclaration,
+    metadata: ComponentMetadata
+  ): void {
+    classDeclaration.members.forEach((member) => {
+      if (!member.name || !ts.isIdentifier(member.name)) return;
+      const name = member.name.text;
+
+      const decorators = ts.canHaveDecorators(member)
+        ? ts.getDecorators(member) || []
+        : [];
+      decorators.forEach((decorator) => {
+        if (
+          !ts.isCallExpression(decorator.expression) ||
+          !ts.isIdentifier(decorator.expression.expression)
+        ) {
+          return;
+        }
+
+        const [first, second] = decorator.expression.arguments;
+        const firstText =
+          first && ts.isStringLiteralLike(first) ? first.text : undefined;
+
+        switch (decorator.expression.expression.text) {
+          case 'Input': {
+            const options =
+              first && ts.isObjectLiteralExpression(first) ? first : undefined;
+            const alias = firstText || (options && this.getObjectStringProperty(options, 'alias'));
+            metadata.inputs.push({
+              name,
+              alias: alias && alias !== name ? alias : undefined,
+              required:
+                !!options &&
+                this.getObjectProperty(options, 'required')?.kind === ts.SyntaxKind.TrueKeyword,
+              source: 'decorator',
+            });
+            break;
+          }
+          case 'Output':
+            metadata.outputs.push({
+              name,
+              alias: firstText && firstText !== name ? firstText : undefined,
+              source: 'decorator',
+            });
+            break;
+          case 'HostBinding':
+            metadata.host = [
+              ...(metadata.host || []),
+              { type: 'property', name: firstText || name, value: name, source: 'decorator' },
+            ];
+            break;
+          case 'HostListener': {
+            const args =
+              second && ts.isArrayLiteralExpression(second)
+                ? second.elements.map((element) =>
+                    ts.isStringLiteralLike(element) ? element.text : element.getText()
+                  )
+                : [];
+            metadata.host = [
+              ...(metadata.host || []),
+              {
+                type: 'listener',
+                name: firstText || name,
+                value: `${name}(${args.join(', ')})`,
+                source: 'decorator',
+              },
+            ];
+            break;
+          }
+        }
+      });
+
+      if (ts.isPropertyDeclaration(member) && member.initializer) {
+        this.collectSignalApi(name, member.initializer, metadata);
+      }
+    });
+  }
+
+  private collectSignalApi(
+    name: string,
+    initializer: ts.Expression,
+    metadata: ComponentMetadata
+  ): void {
+    if (!ts.isCallExpression(initializer)) return;
+
+    const callee = initializer.expression;
+    const required =
+      ts.isPropertyAccessExpression(callee) && callee.name.text === 'required';
+    const factory = ts.isIdentifier(callee)
+      ? callee.text
+      : required && ts.isIdentifier(callee.expression)
+        ? callee.expression.text
+        : undefined;
+
+    const options = initializer.arguments.find(ts.isObjectLiteralExpression);
+    const aliasOption = options && this.getObjectStringProperty(options, 'alias');
+    const alias = aliasOption && aliasOption !== name ? aliasOption : undefined;
+
+    if (factory === 'input') {
+      metadata.inputs.push({ name, alias, required, source: 'signal' });
+    } else if (factory === 'output' || factory === 'outputFromObservable') {
+      metadata.outputs.push({ name, alias, source: 'signal' });
+    } else if (factory === 'model') {
+      // Two-way binding: an input plus a `<name>Change` output
+      metadata.inputs.push({ name, alias, required, source: 'model' });
+      metadata.outputs.push({ name, alias: `${alias || name}Change`, source: 'model' });
+    }
+  }
+
+  private getProviderName(provider: ts.Expression): string {
+    if (ts.isObjectLiteralExpression(provider)) {
+      const provide = this.getObjectProperty(provider, 'provide');
+      if (provide) return provide.getText();
+    }
+    return provider.getText();
+  }
+
+  private getObjectProperty(
+    object: ts.ObjectLiteralExpression,
+    name: string
+  ): ts.Expression | undefined {
+    const prop = object.properties.find(
+      (candidate): candidate is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(candidate) &&
+        (ts.isIdentifier(candidate.name) || ts.isStringLiteralLike(candidate.name)) &&
+        candidate.name.text === name
+    );
+    return prop?.initializer;
+  }
+
+  private getObjectStringProperty(
+    object: ts.ObjectLiteralExpression,
+    name: string
+  ): string | undefined {
+    const value = this.getObjectProperty(object, name);
+    return value && ts.isStringLiteralLike(value) ? value.text : undefined;
+  }
+
+  private getAngularDecorator(
+    node: ts.ClassDeclaration
+  ): { kind: AngularClassKind; decorator: ts.CallExpression } | undefined {
+    const decorators = ts.canHaveDecorators(node)
+      ? ts.getDecorators(node)
+      : undefined;
+
+    for (const decorator of decorators || []) {
+      if (
+        ts.isCallExpression(decorator.expression) &&
+        ts.isIdentifier(decorator.expression.expression) &&
+        ANGULAR_CLASS_DECORATORS[decorator.expression.expression.text]
+      ) {
+        return {
+          kind: ANGULAR_CLASS_DECORATORS[decorator.expression.expression.text],
+          decorator: decorator.expression,
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Registers @Pipe classes from the given files so template pipe usages can
+   * be cross-referenced with their definitions
+   */
+  public registerPipes(filePaths: string[]): void {
+    filePaths.forEach((filePath) => {
+      try {
+        const sourceCode = readFileSync(filePath, 'utf8');
+        if (!sourceCode.includes('@Pipe')) return;
+        this.registerPipesFromSource(
+          ts.createSourceFile(filePath, sourceCode, ts.ScriptTarget.Latest, true),
+          filePath
+        );
+      } catch (error) {
+        console.warn(
+          `Could not read pipe file ${filePath}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    });
+  }
+
+  /**
+   * Registers components by selector so parent templates can be checked
+   * against them: mutated objects bound to OnPush children and heavy
+   * children worth deferring
+   */
+  public registerComponents(filePaths: string[]): void {
+    filePaths.forEach((filePath) => {
+      try {
+        const sourceCode = readFileSync(filePath, 'utf8');
+        if (!sourceCode.includes('@Component')) return;
+        this.registerComponentsFromSource(
+          ts.createSourceFile(filePath, sourceCode, ts.ScriptTarget.Latest, true),
+          filePath
+        );
+      } catch (error) {
+        console.warn(
+          `Could not read component file ${filePath}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    });
+  }
+
+  /**
+   * Registers route components, whose first image is the likely LCP element
+   */
+  public registerRouteComponents(routeAnalysis: RouteAnalysis): void {
+    const collect = (routes: RouteNode[]) =>
+      routes.forEach((route) => {
+        if (route.component) this.routeComponents.add(route.component);
+        collect(route.children);
+      });
+    collect(routeAnalysis.routes);
+  }
+
+  /**
+   * Templates of the @Component classes in a file, inline or from templateUrl
+   */
+  public getTemplateSources(filePath: string): TemplateSource[] {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      readFileSync(filePath, 'utf8'),
+      ts.ScriptTarget.Latest,
+      true
+    );
+
+    return sourceFile.statements
+      .filter(
+        (statement): statement is ts.ClassDeclaration =>
+          ts.isClassDeclaration(statement) &&
+          !!statement.name &&
+          this.getAngularDecorator(statement)?.kind === 'component'
+      )
+      .map((classDeclaration) => this.parseComponentFile(filePath, sourceFile, classDeclaration))
+      .filter((info): info is ComponentInfo & { templateCode: string } => !!info.templateCode)
+      .map((info) => ({
+        componentName: info.name,
+        filePath: info.templatePath || info.filePath,
+        template: info.templateCode,
+        offset: info.templatePath ? 0 : info.templateOffset ?? 0,
+      }));
+  }
+
+  /**
+   * Adds custom rules, which run after the built-in ones
+   */
+  public registerRules(rules: Rule[]): void {
+    rules.forEach((rule) => {
+      if (this.rules.some((existing) => existing.id === rule.id)) {
+        throw new Error(`A rule with id '${rule.id}' is already registered`);
+      }
+      this.rules.push(rule);
+    });
+  }
+
+  public getRules(): Rule[] {
+    return [...this.rules];
+  }
+
+  public getRegisteredPipes(): PipeInfo[] {
+    return Array.from(this.pipeRegistry.values());
+  }
+
+  /**
+   * Elements used in an analyzed component's template, for selector matching
+   */
+  public getTemplateElements(analysis: ComponentAnalysis): TemplateElementUsage[] {
+    return this.templateElements.get(`${analysis.filePath}#${analysis.componentName}`) || [];
+  }
+
+  private collectTemplateElements(): TemplateElementUsage[] {
+    const elements: TemplateElementUsage[] = [];
+    walkTemplate(this.templateAst.nodes, (node) => {
+      if (node.kind !== 'element') return;
+      // Event bindings, references and let- variables never match selectors
+      const matchable = node.attributes.filter((attr) =>
+        ['static', 'property', 'two-way', 'structural'].includes(attr.kind)
+      );
+      elements.push({
+        name: node.name,
+        attributes: matchable.map((attr) => attr.name),
+        classes: matchable
+          .filter((attr) => attr.kind === 'static' && attr.name === 'class')
+          .flatMap((attr) => attr.value.split(/\s+/).filter(Boolean)),
+      });
+    });
+    return elements;
+  }
+
+  private registerComponentsFromSource(sourceFile: ts.SourceFile, filePath: string): void {
+    const heavyImports = sourceFile.statements
+      .filter(ts.isImportDeclaration)
+      .map((statement) => (statement.moduleSpecifier as ts.StringLiteral).text)
+      .filter((moduleName) =>
+        this.config.heavyLibraries.some(
+          (library) => moduleName === library || moduleName.startsWith(`${library}/`)
+        )
+      );
+
+    sourceFile.statements.forEach((statement) => {
+      if (!ts.isClassDeclaration(statement) || !statement.name) return;
+      const angularDecorator = this.getAngularDecorator(statement);
+      const arg = angularDecorator?.decorator.arguments[0];
+      if (angularDecorator?.kind !== 'component' || !arg || !ts.isObjectLiteralExpression(arg)) {
+        return;
+      }
+
+      const metadata = this.parseComponentMetadata(arg);
+      const component: RegisteredComponent = {
+        className: statement.name.text,
+        filePath,
+        onPush: metadata.changeDetection === 'OnPush',
+        heavyImports,
+        templateSize: this.getTemplateSize(metadata, filePath),
+      };
+      metadata.selector
+        .split(',')
+        .map((part) => /^\s*([A-Za-z][\w-]*)\s*$/.exec(part)?.[1])
+        .filter((element): element is string => !!element)
+        .forEach((element) => this.componentRegistry.set(element, component));
+    });
+  }
+
+  private getTemplateSize(metadata: ComponentMetadata, filePath: string): number {
+    if (metadata.template) return metadata.template.length;
+    if (!metadata.templateUrl) return 0;
+    try {
+      return statSync(join(filePath, '..', metadata.templateUrl)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private registerPipesFromSource(sourceFile: ts.SourceFile, filePath: string): void {
+    sourceFile.statements.forEach((statement) => {
+      if (!ts.isClassDeclaration(statement) || !statement.name) return;
+      const angularDecorator = this.getAngularDecorator(statement);
+      if (angularDecorator?.kind !== 'pipe') return;
+
+      const arg = angularDecorator.decorator.arguments[0];
+      const metadata =
+        arg && ts.isObjectLiteralExpression(arg)
+          ? this.parseComponentMetadata(arg)
+          : undefined;
+      if (!metadata?.pipeName) return;
+
+      const transform = statement.members.find(
+        (member): member is ts.MethodDeclaration =>
+          ts.isMethodDeclaration(member) &&
+          ts.isIdentifier(member.name) &&
+          member.name.text === 'transform'
+      );
+      this.pipeRegistry.set(metadata.pipeName, {
+        name: metadata.pipeName,
+        className: statement.name.text,
+        filePath,
+        pure: metadata.pure !== false,
+        expensiveOperations: transform?.body
+          ? this.findExpensiveOperations(transform.body)
+          : [],
+        location: this.getDecoratorLocation(
+          angularDecorator.decorator,
+          sourceFile,
+          filePath
+        ),
+      });
+    });
+  }
+
+  /**
+   * Finds operations whose cost grows with the input: sorting, serialization,
+   * loops, regex/Intl construction and chained array iteration
+   */
+  private findExpensiveOperations(body: ts.Node, minIterations = 2): string[] {
+    const operations: string[] = [];
+    let iterationCount = 0;
+
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isForStatement(node) ||
+        ts.isForOfStatement(node) ||
+        ts.isForInStatement(node) ||
+        ts.isWhileStatement(node) ||
+        ts.isDoStatement(node)
+      ) {
+        operations.push('loop');
+      } else if (ts.isNewExpression(node)) {
+        const name = node.expression.getText();
+        if (name === 'RegExp' || name.startsWith('Intl.')) {
+          operations.push(`new ${name}`);
+        }
+      } else if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression)
+      ) {
+        const method = node.expression.name.text;
+        const receiver = node.expression.expression.getText();
+        if (method === 'sort' || method === 'toSorted') {
+          operations.push(`${method}()`);
+        } else if (receiver === 'JSON') {
+          operations.push(`JSON.${method}`);
+        } else if (
+          ['filter', 'map', 'reduce', 'find', 'some', 'every', 'flatMap'].includes(method)
+        ) {
+          iterationCount++;
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(body);
+
+    if (iterationCount >= minIterations) {
+      operations.push(
+        iterationCount === 1 ? 'array iteration' : `${iterationCount} array iterations`
+      );
+    }
+
+    return Array.from(new Set(operations));
+  }
+
+  private getRawLiteralText(literal: ts.StringLiteralLike): string {
+    const text = literal.getText();
+    // Strip the surrounding quotes or backticks
+    return text.substring(1, text.length - 1);
+  }
+
+  private getStringLiterals(array: ts.ArrayLiteralExpression): string[] {
+    return array.elements
+      .filter((element): element is ts.StringLiteralLike =>
+        ts.isStringLiteralLike(element)
+      )
+      .map((element) => element.text);
+  }
+
+  private analyzeChangeDetection(): ChangeDetectionProblem[] {
+    const issues: ChangeDetectionProblem[] = [];
+
+    // Check if OnPush is missing - but only for components that would benefit from it
+    const isOnPush = this.componentInfo.metadata.changeDetection === 'OnPush';
+    if (this.componentInfo.kind === 'component' && !isOnPush) {
+      if (this.shouldRecommendOnPush()) {
+        // Code that would leave an OnPush view stale makes the switch unsafe as-is
+        const staleViewRisks = this.findStaleViewRisks(false);
+        issues.push({
+          type: 'missing-onpush',
+          severity: 'high',
+          location: this.getChangeDetectionLocation(),
+          description:
+            staleViewRisks.length > 0
+              ? `Component uses default change detection strategy; switching to OnPush as-is would leave ${staleViewRisks.length} update(s) unrendered`
+              : this.getSignalMembers().size > 0
+              ? 'Signal-based component uses default change detection strategy and is ready for OnPush'
+              : 'Component uses default change detection strategy',
+          estimatedImpact: '60% reduction in change detection cycles',
+          fix:
+            staleViewRisks.length > 0
+              ? 'Fix the onpush-stale-view findings first, then add ChangeDetectionStrategy.OnPush to component decorator'
+              : 'Add ChangeDetectionStrategy.OnPush to component decorator',
+          autofix: staleViewRisks.length > 0 ? undefined : this.getOnPushAutofix(),
+        });
+        issues.push(...staleViewRisks);
+      }
+    } else if (this.componentInfo.kind === 'component') {
+      issues.push(...this.findStaleViewRisks(true));
+    }
+
+    if (this.componentInfo.kind === 'component') {
+      issues.push(...this.findMutatedOnPushBindings());
+    }
+
+    // Check pipe definitions for impure or costly transforms
+    if (this.componentInfo.kind === 'pipe') {
+      issues.push(...this.analyzePipeDefinition());
+    }
+
+    // Check for function calls in template bindings
+    if (this.componentInfo.templateCode) {
+      const functionCalls = this.findFunctionCallsInTemplate(
+        this.componentInfo.templateCode
+      );
+      functionCalls.forEach((call) => {
+        const kind = this.getMemberKind(call.functionName);
+        // Reading a signal is a cheap, memoized call
+        if (kind === 'signal') {
+          return;
+        }
+        const operations =
+          kind === 'method' ? this.getMemberCost(call.functionName) : [];
+        const where = call.inLoop ? ' inside a loop' : '';
+        issues.push({
+          type: 'function-in-template',
+          severity: operations.length > 0 || call.inLoop ? 'high' : 'medium',
+          location: call.location,
+          description:
+            operations.length > 0
+              ? `Function call '${call.functionName}' in template${where} re-runs heavy work (${operations.join(', ')}) on every change detection`
+              : `Function call '${call.functionName}' in template${where} causes unnecessary re-execution`,
+          estimatedImpact:
+            operations.length > 0
+              ? 'Significant performance degradation on each change detection'
+              : 'Re-executed on each change detection',
+          fix: 'Move function call to component property, computed signal or pure pipe',
+        });
+      });
+
+      issues.push(
+        ...this.findUnnecessaryComputations(this.componentInfo.templateCode)
+      );
+    }
+
+    // Check for object comparisons in ngIf
+    if (this.componentInfo.templateCode) {
+      const objectComparisons = this.findObjectComparisonsInTemplate(
+        this.componentInfo.templateCode
+      );
+      objectComparisons.forEach((comparison) => {
+        issues.push({
+          type: 'object-comparison',
+          severity: 'medium',
+          location: comparison.location,
+          description: `Object comparison in template: ${comparison.expression}`,
+          estimatedImpact:
+            'Unnecessary re-renders when object references change',
+          fix: 'Use trackBy function or compare primitive values',
+        });
+      });
+    }
 
     return issues;
   }
@@ -327,6 +1595,7 @@ export class PerformanceAnalyzer {
           description: `${syntaxType} loop missing tracking function`,
           elementCount: loop.estimatedSize,
           fix: smartFix,
+          autofix: loop.autofix,
         });
       } else if (loop.recommendedTracking) {
         // Has tracking but could be improved
@@ -357,7 +1626,7 @@ export class PerformanceAnalyzer {
 
     // Check for large ngFor lists
     ngForLoops.forEach((loop) => {
-      if (loop.estimatedSize && loop.estimatedSize > 100) {
+      if (loop.estimatedSize && loop.estimatedSize > this.thresholds.largeListSize) {
         issues.push({
           type: 'large-ngfor',
           severity: 'high',
@@ -369,79 +1638,738 @@ export class PerformanceAnalyzer {
       }
     });
 
+    // Check for impure or costly pipes used in the template
+    issues.push(...this.findExpensivePipeUsages(this.componentInfo.templateCode));
+
+    // Check image, iframe and video loading
+    issues.push(...this.findMediaIssues(this.componentInfo.templateCode));
+
+    // Check existing @defer blocks and children worth deferring
+    issues.push(...this.findDeferIssues(this.componentInfo.templateCode));
+
+    // Check for structural directives with built-in block equivalents
+    issues.push(...this.findLegacyControlFlow(this.componentInfo.templateCode));
+
     return issues;
   }
 
-  private analyzeSubscriptions(): SubscriptionIssue[] {
-    const issues: SubscriptionIssue[] = [];
+  private findLegacyControlFlow(template: string): TemplatePerformanceIssue[] {
+    const issues: TemplatePerformanceIssue[] = [];
+    const replacements: Record<string, string> = {
+      ngIf: '@if',
+      ngFor: '@for',
+      ngForOf: '@for',
+      ngSwitch: '@switch',
+    };
 
-    // Find manual subscriptions
-    const subscriptions = this.findManualSubscriptions();
-    subscriptions.forEach((sub) => {
-      issues.push({
-        type: 'manual-subscription',
-        severity: 'medium',
-        location: sub.location,
-        description: `Manual subscription without proper cleanup: ${sub.variableName}`,
-        fix: 'Use async pipe, takeUntil pattern, or implement OnDestroy',
-      });
-    });
+    walkTemplate(this.templateAst.nodes, (node) => {
+      if (node.kind !== 'element') return;
+      node.attributes.forEach((attr) => {
+        const structural = attr.kind === 'structural' && (attr.name === 'ngIf' || attr.name === 'ngFor');
+        const bound =
+          attr.kind === 'property' &&
+          (attr.name === 'ngSwitch' ||
+            (node.name === 'ng-template' && (attr.name === 'ngIf' || attr.name === 'ngForOf')));
+        if (!structural && !bound) return;
 
-    // Check for multiple subscriptions that could be combined
-    if (subscriptions.length > 3) {
-      issues.push({
-        type: 'multiple-subscriptions',
-        severity: 'low',
-        location: this.getComponentDecoratorLocation(),
-        description: `Component has ${subscriptions.length} manual subscriptions`,
-        fix: 'Consider combining subscriptions using combineLatest or merge operators',
+        issues.push({
+          type: 'legacy-control-flow',
+          severity: 'low',
+          location: this.getTemplateLocation(template, attr.span.start, attr.span.end),
+          description: `${attr.rawName} can be replaced with the built-in ${replacements[attr.name]} block`,
+          fix: `Run \`ngperf migrate control-flow\` to rewrite it as ${replacements[attr.name]}, which needs no directive import and has faster change detection`,
+        });
       });
-    }
+    });
 
     return issues;
   }
 
-  private analyzeBundleOptimizations(): BundleOptimization[] {
-    const optimizations: BundleOptimization[] = [];
+  private findDeferIssues(template: string): TemplatePerformanceIssue[] {
+    const issues: TemplatePerformanceIssue[] = [];
+    let elementIndex = 0;
+
+    walkTemplate(this.templateAst.nodes, (node, ancestors) => {
+      if (node.kind === 'block' && node.name === 'defer') {
+        const parent = ancestors[ancestors.length - 1];
+        const siblings =
+          parent && (parent.kind === 'element' || parent.kind === 'block')
+            ? parent.children
+            : this.templateAst.nodes;
+        issues.push(...this.auditDeferBlock(template, node, siblings));
+        return;
+      }
+      if (node.kind !== 'element') return;
+      elementIndex++;
 
-    // Check for lazy loading opportunities
-    const imports = this.findImports();
-    const largeImports = imports.filter((imp) =>
-      this.isLargeLibrary(imp.moduleName)
-    );
+      const child = this.componentRegistry.get(node.name);
+      if (
+        !child ||
+        child.className === this.componentInfo.name ||
+        ancestors.some((ancestor) => ancestor.kind === 'block' && ancestor.name === 'defer')
+      ) {
+        return;
+      }
 
-    largeImports.forEach((imp) => {
-      optimizations.push({
-        type: 'lazy-loading',
-        description: `Large library '${imp.moduleName}' could be lazy loaded`,
-        estimatedSizeReduction: '20-40KB',
-        implementation:
-          'Consider lazy loading this module or using dynamic imports',
+      const reasons = [
+        ...child.heavyImports,
+        ...(child.templateSize >= this.thresholds.largeTemplateSize
+          ? [`a ${Math.round(child.templateSize / 1024)} KB template`]
+          : []),
+      ];
+      if (reasons.length === 0) return;
+
+      const conditional = [...ancestors, node].some(
+        (ancestor) =>
+          (ancestor.kind === 'block' &&
+            ['if', 'else if', 'else', 'case', 'default'].includes(ancestor.name)) ||
+          (ancestor.kind === 'element' &&
+            ancestor.attributes.some(
+              (attr) =>
+                attr.kind === 'structural' &&
+                ['ngIf', 'ngSwitchCase', 'ngSwitchDefault'].includes(attr.name)
+            ))
+      );
+      const belowFold = elementIndex > this.thresholds.belowFoldElementIndex;
+      if (!conditional && !belowFold) return;
+
+      const bytes = this.getDeferrableBytes(child);
+      const where = conditional ? 'only rendered conditionally' : 'likely below the fold';
+      issues.push({
+        type: 'defer-opportunity',
+        severity: bytes >= this.thresholds.largePackageBytes ? 'high' : 'medium',
+        location: this.getTemplateLocation(template, node.startTagSpan.start, node.startTagSpan.end),
+        description: `<${node.name}> (${child.className}) pulls in ${reasons.join(', ')} but is ${where}${
+          bytes > 0 ? `; deferring it moves ~${formatBytes(bytes)} out of the initial chunk` : ''
+        }`,
+        estimatedBytes: bytes > 0 ? bytes : undefined,
+        fix: conditional
+          ? `Wrap <${node.name}> in @defer (on idle) with a @placeholder inside the condition, so its code loads the first time it is shown`
+          : `Wrap <${node.name}> in @defer (on viewport) with a @placeholder`,
       });
     });
 
-    return optimizations;
+    return issues;
   }
 
-  private calculatePerformanceScore(
-    changeDetectionIssues: ChangeDetectionProblem[],
-    templateIssues: TemplatePerformanceIssue[],
-    subscriptionIssues: SubscriptionIssue[]
-  ): number {
-    let score = 100;
+  /**
+   * Measured initial-chunk bytes of a component file and its heavy imports.
+   * Packages shared with other eager code stay in the initial chunk, so this
+   * is an upper bound.
+   */
+  private getDeferrableBytes(child: RegisteredComponent): number {
+    if (!this.bundleStats) return 0;
+    const fileBytes = this.bundleStats.getFileSize(child.filePath)?.initialBytes || 0;
+    return child.heavyImports.reduce(
+      (sum, moduleName) => sum + (this.bundleStats!.getPackage(moduleName)?.initialBytes || 0),
+      fileBytes
+    );
+  }
 
-    // Deduct points for each issue based on severity
-    const deductPoints = (issues: any[]) => {
-      issues.forEach((issue) => {
+  private auditDeferBlock(
+    template: string,
+    block: TemplateBlock,
+    siblings: TemplateNode[]
+  ): TemplatePerformanceIssue[] {
+    const issues: TemplatePerformanceIssue[] = [];
+    const location = this.getTemplateLocation(
+      template,
+      block.span.start,
+      block.parametersSpan ? block.parametersSpan.end + 1 : block.span.start + '@defer'.length
+    );
+
+    // @placeholder, @loading and @error follow the @defer block
+    const connected = new Set<string>();
+    for (let i = siblings.indexOf(block) + 1; i < siblings.length; i++) {
+      const sibling = siblings[i];
+      if (sibling.kind === 'comment' || (sibling.kind === 'text' && !sibling.value.trim())) continue;
+      if (sibling.kind !== 'block' || !['placeholder', 'loading', 'error'].includes(sibling.name)) break;
+      connected.add(sibling.name);
+    }
+
+    const triggers = block.parameters
+      .split(';')
+      .map((part) => part.trim())
+      .filter((part) => /^on\s/.test(part));
+
+    if (triggers.some((trigger) => /\bimmediate\b/.test(trigger))) {
+      issues.push({
+        type: 'defer-immediate-trigger',
+        severity: 'medium',
+        location,
+        description: '@defer (on immediate) loads its content right after the first render, so nothing is deferred in practice',
+        fix: 'Use on idle, on viewport or on interaction, or keep immediate only as a prefetch trigger (prefetch on immediate)',
+      });
+    }
+
+    if (!connected.has('placeholder')) {
+      // Without a referenced element these triggers observe the placeholder
+      const needsPlaceholder = triggers.some((trigger) =>
+        PLACEHOLDER_TRIGGERS.some((name) => new RegExp(`\\b${name}\\s*(?:,|$)`).test(trigger))
+      );
+      issues.push({
+        type: 'defer-missing-placeholder',
+        severity: needsPlaceholder ? 'high' : 'low',
+        location,
+        description: needsPlaceholder
+          ? '@defer with a viewport, interaction or hover trigger has no @placeholder to observe'
+          : '@defer has no @placeholder, so the space stays empty and shifts layout when the content arrives',
+        fix: 'Add a @placeholder block sized like the deferred content',
+      });
+    }
+
+    if (!connected.has('loading')) {
+      issues.push({
+        type: 'defer-missing-loading',
+        severity: 'low',
+        location,
+        description: '@defer has no @loading block to show while its chunk downloads',
+        fix: 'Add @loading (after 100ms; minimum 500ms) { ... } to avoid a blank or flickering area on slow connections',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * NgOptimizedImage and lazy-loading rules. The first image of a route
+   * component is treated as the likely LCP element; images after it, and
+   * images repeated by loops, as below the fold.
+   */
+  private findMediaIssues(template: string): TemplatePerformanceIssue[] {
+    const issues: TemplatePerformanceIssue[] = [];
+    const isRouteComponent = this.routeComponents.has(this.componentInfo.name);
+    let imageIndex = 0;
+
+    walkTemplate(this.templateAst.nodes, (node, ancestors) => {
+      if (node.kind !== 'element' || !['img', 'iframe', 'video'].includes(node.name)) return;
+      // Deferred content already stays out of the initial render
+      if (ancestors.some((ancestor) => ancestor.kind === 'block' && ancestor.name === 'defer')) {
+        return;
+      }
+
+      const attr = (name: string) => node.attributes.find((a) => a.name === name && a.kind !== 'event');
+      const staticValue = (name: string) => {
+        const found = attr(name);
+        return found?.kind === 'static' ? found.value.trim().toLowerCase() : undefined;
+      };
+      const location = this.getTemplateLocation(template, node.startTagSpan.start, node.startTagSpan.end);
+      const lazy = staticValue('loading') === 'lazy' || attr('loading')?.kind === 'property';
+      const push = (issue: Omit<TemplatePerformanceIssue, 'category' | 'location'>) =>
+        issues.push({ ...issue, category: 'media', location });
+
+      if (node.name !== 'img') {
+        if (node.name === 'iframe' && !lazy) {
+          push({
+            type: 'media-missing-lazy-loading',
+            severity: 'medium',
+            description: '<iframe> loads its whole document eagerly, competing with the initial render',
+            fix: 'Add loading="lazy", or wrap the iframe in @defer (on viewport)',
+          });
+        }
+        const preload = staticValue('preload');
+        if (node.name === 'video' && !attr('autoplay') && preload !== 'none' && preload !== 'metadata') {
+          push({
+            type: 'media-missing-lazy-loading',
+            severity: 'low',
+            description: '<video> without preload="none" may start downloading media before it is played',
+            fix: 'Add preload="none" (or "metadata") and a poster image, or wrap the player in @defer (on viewport)',
+          });
+        }
+        return;
+      }
+
+      const src = attr('src');
+      const ngSrc = attr('ngSrc');
+      // Inline images cost no request
+      if (src?.kind === 'static' && /^\s*data:/.test(src.value)) return;
+      if (src && !ngSrc) {
+        push({
+          type: 'image-missing-ngsrc',
+          severity: 'medium',
+          description: '<img> uses src instead of NgOptimizedImage',
+          fix: 'Import NgOptimizedImage and replace src with ngSrc to get lazy loading, srcset generation and LCP warnings',
+        });
+      }
+      if (ngSrc && !attr('fill') && (!attr('width') || !attr('height'))) {
+        push({
+          type: 'image-missing-dimensions',
+          severity: 'high',
+          description: '<img ngSrc> without width and height (or fill) throws at runtime and causes layout shift',
+          fix: 'Add the intrinsic width and height attributes, or fill for images sized by their container',
+        });
+      }
+
+      const perItem = ancestors.some((ancestor) => this.isTemplateLoop(ancestor)) || this.isTemplateLoop(node);
+      const first = imageIndex++ === 0 && !perItem;
+      if (first && isRouteComponent) {
+        if (!attr('priority') && staticValue('fetchpriority') !== 'high') {
+          push({
+            type: 'image-missing-priority',
+            severity: lazy ? 'high' : 'medium',
+            description: `First image of route component ${this.componentInfo.name} is the likely LCP element but is not prioritized${
+              lazy ? ' and is lazy-loaded' : ''
+            }`,
+            fix: ngSrc
+              ? 'Add the priority attribute (and remove loading="lazy")'
+              : 'Use ngSrc with the priority attribute, or add fetchpriority="high" without loading="lazy"',
+          });
+        }
+      } else if (!first && !ngSrc && !lazy) {
+        push({
+          type: 'image-missing-lazy-loading',
+          severity: perItem ? 'medium' : 'low',
+          description: perItem
+            ? 'Image repeated in a loop loads eagerly for every item'
+            : 'Image likely below the fold loads eagerly',
+          fix: 'Add loading="lazy", or use ngSrc which lazy-loads by default',
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  private analyzePipeDefinition(): ChangeDetectionProblem[] {
+    const issues: ChangeDetectionProblem[] = [];
+    const pipe = this.getRegisteredPipes().find(
+      (info) =>
+        info.className === this.componentInfo.name &&
+        info.filePath === this.componentInfo.filePath
+    );
+    if (!pipe) return issues;
+
+    const operations = pipe.expensiveOperations.join(', ');
+    if (!pipe.pure) {
+      issues.push({
+        type: 'impure-pipe',
+        severity: pipe.expensiveOperations.length > 0 ? 'high' : 'medium',
+        location: pipe.location,
+        description: `Pipe '${pipe.name}' is impure and runs on every change detection cycle${
+          operations ? ` (transform uses ${operations})` : ''
+        }`,
+        estimatedImpact: 'transform() re-runs for every usage on every change detection',
+        fix: 'Make the pipe pure and pass immutable inputs, or move the work into a computed signal',
+      });
+    } else if (pipe.expensiveOperations.length > 0) {
+      issues.push({
+        type: 'expensive-pipe-transform',
+        severity: 'low',
+        location: pipe.location,
+        description: `Pipe '${pipe.name}' does heavy work in transform(): ${operations}`,
+        estimatedImpact: 'Costly whenever inputs change, especially inside loops',
+        fix: 'Precompute the result in the component or memoize it outside the pipe',
+      });
+    }
+
+    return issues;
+  }
+
+  private findExpensivePipeUsages(template: string): TemplatePerformanceIssue[] {
+    const issues: TemplatePerformanceIssue[] = [];
+
+    this.getTemplateExpressions().forEach(({ expression, start, ancestors }) => {
+      const inLoop = ancestors.some((ancestor) => this.isTemplateLoop(ancestor));
+
+      findPipeUsages(expression).forEach((usage) => {
+        const pipe = this.pipeRegistry.get(usage.name);
+        const impure = pipe ? !pipe.pure : BUILTIN_IMPURE_PIPES.includes(usage.name);
+        const operations = pipe?.expensiveOperations || [];
+        if (!impure && !(inLoop && operations.length > 0)) return;
+
+        const usageStart = start + usage.start;
+        const where = inLoop ? ' inside a loop' : '';
+        issues.push({
+          type: 'expensive-pipe',
+          severity: impure && inLoop ? 'high' : impure ? 'medium' : 'low',
+          location: this.getTemplateLocation(
+            template,
+            usageStart,
+            start + usage.end
+          ),
+          description: impure
+            ? `Impure pipe '${usage.name}' used${where} runs on every change detection`
+            : `Pipe '${usage.name}' does heavy work (${operations.join(', ')})${where}`,
+          fix: impure
+            ? 'Precompute the value in the component (e.g. a computed signal) or make the pipe pure'
+            : 'Precompute the transformed list once instead of per item',
+        });
+      });
+    });
+
+    return issues;
+  }
+
+  private analyzeSubscriptions(): SubscriptionIssue[] {
+    const issues: SubscriptionIssue[] = [];
+
+    // Find manual subscriptions, skipping those with provable cleanup
+    const subscriptions = this.findManualSubscriptions().filter(
+      (sub) => !sub.cleanup
+    );
+    subscriptions.forEach((sub) => {
+      if (sub.misplacedTakeUntil) {
+        const { operator, flattening } = sub.misplacedTakeUntil;
+        issues.push({
+          type: 'memory-leak',
+          severity: 'high',
+          location: sub.location,
+          description: `${operator}() comes before ${flattening}(), so inner subscriptions outlive the component: ${sub.variableName}`,
+          fix: `Move ${operator}() to the end of the pipe`,
+        });
+        return;
+      }
+
+      if (sub.longLivedSource) {
+        issues.push({
+          type: 'memory-leak',
+          severity: 'high',
+          location: sub.location,
+          description: `Subscription to long-lived source '${sub.longLivedSource}' is never torn down: ${sub.variableName}`,
+          fix: 'Add takeUntilDestroyed(), or store the subscription and unsubscribe in ngOnDestroy',
+          autofix: this.getTakeUntilDestroyedAutofix(sub.call),
+        });
+        return;
+      }
+
+      issues.push({
+        type: 'manual-subscription',
+        severity: 'medium',
+        location: sub.location,
+        description: `Manual subscription without proper cleanup: ${sub.variableName}`,
+        fix: 'Use async pipe, takeUntil pattern, or implement OnDestroy',
+        autofix: this.getTakeUntilDestroyedAutofix(sub.call),
+      });
+    });
+
+    // Global listeners, intervals and observers without a matching release
+    const componentClass = this.getComponentClass();
+    if (componentClass) {
+      issues.push(
+        ...new ResourceLeakAnalyzer((node) => this.getNodeLocation(node)).analyze(
+          componentClass,
+          this.collectTeardownCode()
+        )
+      );
+    }
+
+    // Check for multiple subscriptions that could be combined
+    if (subscriptions.length > this.thresholds.maxManualSubscriptions) {
+      issues.push({
+        type: 'multiple-subscriptions',
+        severity: 'low',
+        location: this.getClassNameLocation(),
+        description: `Component has ${subscriptions.length} manual subscriptions`,
+        fix: 'Consider combining subscriptions using combineLatest or merge operators',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * High-frequency zone tasks started by the class, see ZoneAnalyzer
+   */
+  private analyzeZone(): ZoneIssue[] {
+    const componentClass = this.getComponentClass();
+    if (!componentClass) return [];
+    return new ZoneAnalyzer((node) => this.getNodeLocation(node)).analyze(
+      componentClass,
+      this.getSignalMembers()
+    );
+  }
+
+  /**
+   * Blockers for switching to zoneless change detection, see ZonelessAnalyzer
+   */
+  private analyzeZoneless(): ZonelessReadiness {
+    const blockers: ZonelessBlocker[] = [];
+    const componentClass = this.getComponentClass();
+
+    if (
+      this.componentInfo.kind === 'component' &&
+      this.componentInfo.metadata.changeDetection !== 'OnPush'
+    ) {
+      blockers.push({
+        type: 'default-change-detection',
+        severity: 'medium',
+        location: this.getChangeDetectionLocation(),
+        description:
+          'Default change detection relies on Zone.js to re-check the component after any async work',
+        fix: 'Switch to ChangeDetectionStrategy.OnPush and keep template state in signals, inputs or the async pipe',
+      });
+    }
+
+    if (componentClass) {
+      blockers.push(
+        ...new ZonelessAnalyzer((node) => this.getNodeLocation(node)).analyze(
+          componentClass,
+          this.getSignalMembers()
+        )
+      );
+    }
+
+    return {
+      verdict: blockers.some((blocker) => blocker.severity === 'high')
+        ? 'blocked'
+        : blockers.length > 0
+        ? 'needs-work'
+        : 'ready',
+      blockers,
+    };
+  }
+
+  private analyzeSignals(): SignalIssue[] {
+    const issues: SignalIssue[] = [];
+    const componentClass = this.getComponentClass();
+    if (!componentClass) return issues;
+
+    const signalMembers = this.getSignalMembers();
+    const isSignalRef = (expression: ts.Expression) =>
+      ts.isPropertyAccessExpression(expression) &&
+      expression.expression.kind === ts.SyntaxKind.ThisKeyword &&
+      signalMembers.has(expression.name.text);
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+        const callee = node.expression.text;
+        const callback = node.arguments[0];
+
+        // effect(() => this.other.set(...))
+        if (callee === 'effect' && callback) {
+          this.findSignalWrites(callback, isSignalRef).forEach((write) => {
+            issues.push({
+              type: 'effect-writes-signal',
+              severity: 'medium',
+              location: this.getNodeLocation(write),
+              description: `effect() writes to signal '${write.expression.getText().replace(/\.(set|update)$/, '')}'`,
+              fix: 'Derive the value with computed() or linkedSignal() instead of writing from an effect',
+            });
+          });
+        }
+
+        // computed(() => this.someMethod())
+        if (callee === 'computed' && callback) {
+          this.findNonSignalMethodCalls(callback, signalMembers).forEach((call) => {
+            issues.push({
+              type: 'computed-non-signal-call',
+              severity: 'medium',
+              location: this.getNodeLocation(call),
+              description: `computed() calls non-signal method '${call.expression.getText()}', whose dependencies are not tracked`,
+              fix: 'Read signals directly inside computed(), or turn the method result into a signal',
+            });
+          });
+        }
+
+        // toSignal(source$) without initialValue/requireSync
+        if (callee === 'toSignal' && !this.hasInitialValueOption(node.arguments[1])) {
+          issues.push({
+            type: 'tosignal-missing-initial-value',
+            severity: 'low',
+            location: this.getNodeLocation(node),
+            description: 'toSignal() without initialValue or requireSync returns undefined until the first emission',
+            fix: 'Pass { initialValue } or, for synchronously emitting sources like BehaviorSubject, { requireSync: true }',
+          });
+        }
+      }
+
+      // source$.subscribe(value => this.field = value)
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.name.text === 'subscribe' &&
+        this.isFieldAssignmentCallback(node.arguments[0])
+      ) {
+        issues.push({
+          type: 'subscription-to-signal',
+          severity: 'low',
+          location: this.getNodeLocation(node),
+          description: `Subscription only copies values into a field: ${node.expression.expression.getText()}`,
+          fix: 'Replace the subscription and field with toSignal(source$)',
+        });
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(componentClass);
+
+    issues.push(...this.findSignalReadsInTemplateLoops(signalMembers));
+
+    return issues;
+  }
+
+  private findSignalWrites(
+    callback: ts.Node,
+    isSignalRef: (expression: ts.Expression) => boolean
+  ): ts.CallExpression[] {
+    const writes: ts.CallExpression[] = [];
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        ['set', 'update'].includes(node.expression.name.text) &&
+        isSignalRef(node.expression.expression)
+      ) {
+        writes.push(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(callback);
+    return writes;
+  }
+
+  private findNonSignalMethodCalls(
+    callback: ts.Node,
+    signalMembers: Set<string>
+  ): ts.CallExpression[] {
+    const calls: ts.CallExpression[] = [];
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.expression.kind === ts.SyntaxKind.ThisKeyword &&
+        !signalMembers.has(node.expression.name.text) &&
+        this.getMemberKind(node.expression.name.text) === 'method' &&
+        // Pure helpers only see what is passed in, which is still tracked
+        this.getClassMember(node.expression.name.text)?.getText().includes('this.')
+      ) {
+        calls.push(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(callback);
+    return calls;
+  }
+
+  private hasInitialValueOption(options?: ts.Expression): boolean {
+    if (!options) return false;
+    if (!ts.isObjectLiteralExpression(options)) return true; // can't tell, assume configured
+    return options.properties.some(
+      (prop) =>
+        prop.name &&
+        ts.isIdentifier(prop.name) &&
+        ['initialValue', 'requireSync'].includes(prop.name.text)
+    );
+  }
+
+  /**
+   * True for `value => this.field = value` and `value => { this.field = value; }`
+   */
+  private isFieldAssignmentCallback(callback?: ts.Expression): boolean {
+    if (!callback || !ts.isArrowFunction(callback) || callback.parameters.length !== 1) {
+      return false;
+    }
+    const param = callback.parameters[0].name.getText();
+    let body: ts.Node = callback.body;
+    if (ts.isBlock(body)) {
+      if (body.statements.length !== 1 || !ts.isExpressionStatement(body.statements[0])) {
+        return false;
+      }
+      body = body.statements[0].expression;
+    }
+    return (
+      ts.isBinaryExpression(body) &&
+      body.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isPropertyAccessExpression(body.left) &&
+      body.left.expression.kind === ts.SyntaxKind.ThisKeyword &&
+      body.right.getText() === param
+    );
+  }
+
+  private findSignalReadsInTemplateLoops(signalMembers: Set<string>): SignalIssue[] {
+    const issues: SignalIssue[] = [];
+    const template = this.componentInfo.templateCode || '';
+    if (!template || signalMembers.size === 0) return issues;
+
+    walkTemplate(this.templateAst.nodes, (node, ancestors) => {
+      if (
+        node.kind !== 'text' ||
+        !ancestors.some((ancestor) => this.isTemplateLoop(ancestor))
+      ) {
+        return;
+      }
+
+      node.interpolations.forEach((interpolation) => {
+        findCallExpressions(interpolation.expression)
+          .filter((call) => signalMembers.has(call.name) && call.args.length === 0)
+          .forEach((call) => {
+            issues.push({
+              type: 'signal-read-in-loop',
+              severity: 'low',
+              location: this.getTemplateLocation(
+                template,
+                interpolation.expressionSpan.start + call.start,
+                interpolation.expressionSpan.start + call.end
+              ),
+              description: `Signal '${call.name}' is read on every iteration of a template loop`,
+              fix: `Read it once outside the loop, e.g. @let ${call.name}Value = ${call.name}();`,
+            });
+          });
+      });
+    });
+
+    return issues;
+  }
+
+  private analyzeBundleOptimizations(): BundleOptimization[] {
+    const optimizations: BundleOptimization[] = [];
+
+    // Check for lazy loading opportunities
+    const imports = this.findImports();
+    const largeImports = imports.filter(
+      (imp) =>
+        this.isLargeLibrary(imp.moduleName) ||
+        // With measured sizes, any package that weighs heavily on the initial bundle
+        (!imp.moduleName.startsWith('.') &&
+          !imp.moduleName.startsWith('@angular/') &&
+          (this.bundleStats?.getPackage(imp.moduleName)?.initialBytes || 0) >=
+            this.thresholds.largePackageBytes)
+    );
+
+    largeImports.forEach((imp) => {
+      const measured = this.bundleStats?.getPackage(imp.moduleName);
+      // Already outside the initial bundle: nothing to gain from lazy loading
+      if (this.bundleStats && measured && measured.initialBytes === 0) {
+        return;
+      }
+
+      optimizations.push({
+        type: 'lazy-loading',
+        description: `Large library '${imp.moduleName}' could be lazy loaded`,
+        estimatedSizeReduction: measured
+          ? `${formatBytes(measured.initialBytes)} in initial chunks (measured)`
+          : '20-40KB',
+        implementation:
+          'Consider lazy loading this module or using dynamic imports',
+        location: imp.location,
+      });
+    });
+
+    return optimizations;
+  }
+
+  private calculatePerformanceScore(
+    changeDetectionIssues: ChangeDetectionProblem[],
+    templateIssues: TemplatePerformanceIssue[],
+    subscriptionIssues: SubscriptionIssue[],
+    signalIssues: SignalIssue[],
+    zoneIssues: ZoneIssue[]
+  ): number {
+    let score = 100;
+
+    // Deduct points for each issue based on severity
+    const deductions = this.thresholds.scoreDeductions;
+    const deductPoints = (issues: any[]) => {
+      issues.forEach((issue) => {
         switch (issue.severity) {
           case 'high':
-            score -= 15;
+            score -= deductions.high;
             break;
           case 'medium':
-            score -= 10;
+            score -= deductions.medium;
             break;
           case 'low':
-            score -= 5;
+            score -= deductions.low;
             break;
         }
       });
@@ -450,6 +2378,8 @@ export class PerformanceAnalyzer {
     deductPoints(changeDetectionIssues);
     deductPoints(templateIssues);
     deductPoints(subscriptionIssues);
+    deductPoints(signalIssues);
+    deductPoints(zoneIssues);
 
     return Math.max(0, score);
   }
@@ -458,6 +2388,8 @@ export class PerformanceAnalyzer {
     changeDetectionIssues: ChangeDetectionProblem[],
     templateIssues: TemplatePerformanceIssue[],
     subscriptionIssues: SubscriptionIssue[],
+    signalIssues: SignalIssue[],
+    zoneIssues: ZoneIssue[],
     bundleOptimizations: BundleOptimization[]
   ): OptimizationRecommendation[] {
     const recommendations: OptimizationRecommendation[] = [];
@@ -496,10 +2428,33 @@ export class PerformanceAnalyzer {
       });
     }
 
+    const templateComputations = changeDetectionIssues.filter(
+      (issue) =>
+        issue.type === 'function-in-template' ||
+        issue.type === 'unnecessary-computation'
+    );
+    if (templateComputations.length > 0) {
+      recommendations.push({
+        priority: templateComputations.some((issue) => issue.severity === 'high')
+          ? 'high'
+          : 'medium',
+        category: 'performance',
+        title: 'Precompute Template Values',
+        description:
+          'Methods, costly getters and long pipe chains in bindings re-run on every change detection',
+        implementation:
+          'Move the work into computed signals, pure pipes or properties updated when inputs change',
+        estimatedImpact: 'Less work per change detection cycle',
+      });
+    }
+
     const hasSubscriptionIssues = subscriptionIssues.length > 0;
+    const hasMemoryLeaks = subscriptionIssues.some(
+      (issue) => issue.type === 'memory-leak'
+    );
     if (hasSubscriptionIssues) {
       recommendations.push({
-        priority: 'medium',
+        priority: hasMemoryLeaks ? 'high' : 'medium',
         category: 'memory',
         title: 'Optimize Subscription Management',
         description:
@@ -510,24 +2465,161 @@ export class PerformanceAnalyzer {
       });
     }
 
-    return recommendations;
-  }
-
-  /**
-   * Determines if a component is complex enough to warrant OnPush strategy
-   * Only recommends OnPush for components that have meaningful logic or complexity
-   */
-  private shouldRecommendOnPush(): boolean {
-    const sourceCode = this.componentInfo.sourceCode;
-    const templateCode = this.componentInfo.templateCode || '';
+    if (signalIssues.length > 0) {
+      recommendations.push({
+        priority: 'medium',
+        category: 'performance',
+        title: 'Fix Signal Anti-Patterns',
+        description:
+          'Derive state with computed() instead of effects, keep computations signal-only, and prefer toSignal over manual subscriptions',
+        implementation:
+          'Replace effect writes with computed()/linkedSignal() and hoist signal reads out of template loops',
+        estimatedImpact:
+          'Fewer redundant change detection passes and glitch-free reactive state',
+      });
+    }
+
+    if (zoneIssues.length > 0) {
+      recommendations.push({
+        priority: zoneIssues.some((issue) => issue.severity === 'high')
+          ? 'high'
+          : 'medium',
+        category: 'performance',
+        title: 'Move Hot Paths Outside the Angular Zone',
+        description:
+          'Timers, animation frames and high-frequency events inside the zone run application-wide change detection on every tick',
+        implementation:
+          'Start them in NgZone.runOutsideAngular() and refresh the view with markForCheck(), detectChanges() or signals only when state changes',
+        estimatedImpact: 'Removes change detection passes that render nothing',
+      });
+    }
+
+    return recommendations;
+  }
+
+  /**
+   * Updates an OnPush view would miss: @Input objects mutated in place and
+   * template fields written from async callbacks without markForCheck().
+   * With `isOnPush` false, reports what would break once OnPush is applied.
+   */
+  private findStaleViewRisks(isOnPush: boolean): ChangeDetectionProblem[] {
+    const issues: ChangeDetectionProblem[] = [];
+    const severity = isOnPush ? 'high' : 'medium';
+    const consequence = isOnPush
+      ? 'the OnPush view does not re-render'
+      : 'the view would not re-render once OnPush is applied';
+
+    // Signal inputs hold the object behind a call: this.items().push(...)
+    const inputs = new Map(
+      this.componentInfo.metadata.inputs.map((input) => [
+        input.name,
+        input.source === 'signal' || input.source === 'model',
+      ])
+    );
+    const visit = (node: ts.Node) => {
+      const mutated = getMutatedObject(node);
+      const match = mutated && /^this\.(\w+)(\(\))?(?:$|[.[?])/.exec(mutated.getText().replace(/\s+/g, ''));
+      if (match && inputs.has(match[1]) && inputs.get(match[1]) === !!match[2]) {
+        issues.push({
+          type: 'onpush-stale-view',
+          severity,
+          location: this.getNodeLocation(node),
+          description: `Input '${match[1]}' is mutated in place; the reference does not change, so ngOnChanges never fires and the parent and other OnPush views sharing it stay stale`,
+          estimatedImpact: 'Stale data rendered until an unrelated change detection pass',
+          fix: `Emit a copy instead (e.g. [...items, item] or { ...obj, key }) through an output, or keep the state in a signal owned by this component`,
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.componentClass);
+
+    const template = this.componentInfo.templateCode || '';
+    new ZonelessAnalyzer((node) => this.getNodeLocation(node))
+      .findAsyncStateMutations(this.componentClass, this.getSignalMembers())
+      .forEach(({ location, source, fields }) => {
+        // Only fields the template renders can go stale
+        const rendered = fields.filter((field) =>
+          new RegExp(`\\b${field.replace('this.', '')}\\b`).test(template)
+        );
+        if (rendered.length === 0) return;
+        issues.push({
+          type: 'onpush-stale-view',
+          severity,
+          location,
+          description: `${rendered.join(', ')} ${rendered.length > 1 ? 'are' : 'is'} updated in ${source} without markForCheck(), so ${consequence}`,
+          estimatedImpact: 'Stale data rendered until an unrelated change detection pass',
+          fix: `Store ${rendered.join(', ')} in ${rendered.length > 1 ? 'signals' : 'a signal'}, use the async pipe, or call cdr.markForCheck() after the update`,
+        });
+      });
+
+    return issues;
+  }
+
+  /**
+   * Fields mutated in place and bound to inputs of registered OnPush children:
+   * the child receives the same reference and skips the update
+   */
+  private findMutatedOnPushBindings(): ChangeDetectionProblem[] {
+    const issues: ChangeDetectionProblem[] = [];
+    const template = this.componentInfo.templateCode;
+    if (!template || this.componentRegistry.size === 0) return issues;
+
+    const signalMembers = this.getSignalMembers();
+    const mutatedFields = new Set<string>();
+    const visit = (node: ts.Node) => {
+      const mutated = getMutatedObject(node);
+      const match = mutated && /^this\.(\w+)(\(\))?/.exec(mutated.getText().replace(/\s+/g, ''));
+      // `this.signal.set()` replaces the value; `this.signal().push()` mutates it
+      if (match && (!signalMembers.has(match[1]) || match[2])) {
+        mutatedFields.add(match[1]);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.componentClass);
+    if (mutatedFields.size === 0) return issues;
+
+    walkTemplate(this.templateAst.nodes, (node) => {
+      if (node.kind !== 'element') return;
+      const registered = this.componentRegistry.get(node.name);
+      if (!registered?.onPush || registered.className === this.componentInfo.name) return;
+      const child = registered.className;
+
+      node.attributes
+        .filter((attr) => attr.kind === 'property' || attr.kind === 'two-way')
+        .forEach((attr) => {
+          const field = /^\s*(\w+)/.exec(attr.value)?.[1];
+          if (!field || !mutatedFields.has(field)) return;
+          issues.push({
+            type: 'onpush-stale-view',
+            severity: 'high',
+            location: this.getTemplateLocation(template, attr.span.start, attr.span.end),
+            description: `'${field}' is mutated in place but bound to [${attr.name}] of OnPush component ${child}, which only re-renders when the reference changes`,
+            estimatedImpact: `${child} keeps rendering the old data`,
+            fix: `Replace ${field} with a new object or array on every change, or hold it in a signal updated with update()`,
+          });
+        });
+    });
+
+    return issues;
+  }
+
+  /**
+   * Determines if a component is complex enough to warrant OnPush strategy
+   * Only recommends OnPush for components that have meaningful logic or complexity
+   */
+  private shouldRecommendOnPush(): boolean {
+    // Only the analyzed class counts; other classes may share the file
+    const sourceCode = this.componentClass.getText();
     
     // Check if component has meaningful complexity indicators
-    const complexityIndicators = [
-      // Has injected services (likely doing some logic)
+    // Has injected services (likely doing some logic)
+    const injectionIndicators = [
       /constructor\s*\([^)]*\s+\w+Service/i,
       /constructor\s*\([^)]*\s+Http/i,
       /constructor\s*\([^)]*\s+Api/i,
-      
+    ];
+
+    const complexityIndicators = [
       // Has lifecycle hooks (ngOnInit, ngOnChanges, etc.)
       /ngOnInit\s*\(/,
       /ngOnChanges\s*\(/,
@@ -558,37 +2650,49 @@ export class PerformanceAnalyzer {
       
       // Has inputs that could change frequently
       /@Input\(\)\s+\w+(?:\s*:\s*(?:any|object|\w+\[\]))/,
-    ];
 
-    // Check template complexity indicators
-    const templateComplexityIndicators = [
-      // Has ngFor loops (data iteration)
-      /\*ngFor/,
-      
-      // Has conditional rendering
-      /\*ngIf/,
-      /\[ngSwitch\]/,
-      
-      // Has event bindings
-      /\(\w+\)\s*=/,
-      
-      // Has property bindings
-      /\[\w+\]\s*=/,
-      
-      // Has multiple interpolations
-      /\{\{.*?\}\}/g,
+      // Uses signals (already reactive, so OnPush is safe to adopt)
+      /\b(?:signal|computed|input|model|linkedSignal|toSignal)\s*(?:<[^>]*>)?\s*\(/,
+      /\binput\.required\s*(?:<[^>]*>)?\s*\(/,
     ];
 
     // Count complexity indicators in source code
-    const sourceComplexityCount = complexityIndicators.reduce((count, pattern) => {
+    let sourceComplexityCount = complexityIndicators.reduce((count, pattern) => {
       return count + (pattern.test(sourceCode) ? 1 : 0);
     }, 0);
 
-    // Count template complexity
-    const templateMatches = templateCode.match(/\{\{.*?\}\}/g) || [];
-    const hasTemplateComplexity = templateComplexityIndicators.some(pattern => 
-      pattern.test(templateCode)
-    );
+    // With type information, count what is actually injected (including
+    // `inject()` calls) instead of matching constructor text
+    const injectedTypes = this.getInjectedTypeNames();
+    sourceComplexityCount += injectedTypes
+      ? [/Service$/, /^HttpClient$/, /Api/i].filter((pattern) =>
+          injectedTypes.some((name) => pattern.test(name))
+        ).length
+      : injectionIndicators.filter((pattern) => pattern.test(sourceCode))
+          .length;
+
+    // Check template complexity: loops, conditionals, event and property bindings
+    let hasTemplateComplexity = false;
+    walkTemplate(this.templateAst.nodes, (node) => {
+      if (node.kind === 'block') {
+        hasTemplateComplexity ||= ['for', 'if', 'switch'].includes(node.name);
+      } else if (node.kind === 'element') {
+        hasTemplateComplexity ||= node.attributes.some(
+          (attr) =>
+            (attr.kind === 'structural' &&
+              ['ngFor', 'ngIf'].includes(attr.name)) ||
+            attr.kind === 'event' ||
+            attr.kind === 'property' ||
+            attr.kind === 'two-way'
+        );
+      }
+    });
+    const templateMatches = this.getTemplateInterpolations();
+
+    // Signal-based components are reactive-ready: OnPush costs them nothing
+    if (this.getSignalMembers().size > 0 && templateMatches.length > 0) {
+      return true;
+    }
 
     // Only recommend OnPush if component has meaningful complexity
     // Criteria:
@@ -602,60 +2706,435 @@ export class PerformanceAnalyzer {
     );
   }
 
-  // Helper methods for analysis
-  private getComponentDecoratorLocation(): CodeLocation {
+  /**
+   * Sets `changeDetection: ChangeDetectionStrategy.OnPush` in the component
+   * decorator and imports ChangeDetectionStrategy
+   */
+  private getOnPushAutofix(): Autofix | undefined {
+    const componentClass = this.getComponentClass();
+    const arg = componentClass && this.getAngularDecorator(componentClass)?.decorator.arguments[0];
+    if (!arg || !ts.isObjectLiteralExpression(arg)) return undefined;
+
+    const filePath = this.componentInfo.filePath;
+    const text = this.sourceFile.text;
+    const value = 'ChangeDetectionStrategy.OnPush';
+    const properties = arg.properties;
+    const existing = properties.find(
+      (prop): prop is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) && prop.name.text === 'changeDetection'
+    );
+
+    let edit: TextEdit;
+    if (existing) {
+      const { initializer } = existing;
+      edit = { filePath, start: initializer.getStart(), end: initializer.getEnd(), newText: value };
+    } else if (properties.length > 0) {
+      const last = properties[properties.length - 1];
+      const multiline = text.slice(arg.getStart(), last.getStart()).includes('\n');
+      const separator = multiline ? `\n${getLineIndent(text, last.getStart())}` : ' ';
+      // Keep a trailing comma where the object already uses one
+      const position = properties.hasTrailingComma ? text.indexOf(',', last.getEnd()) + 1 : last.getEnd();
+      edit = {
+        filePath,
+        start: position,
+        end: position,
+        newText: properties.hasTrailingComma
+          ? `${separator}changeDetection: ${value},`
+          : `,${separator}changeDetection: ${value}`,
+      };
+    } else {
+      edit = { filePath, start: arg.getStart() + 1, end: arg.getEnd() - 1, newText: ` changeDetection: ${value} ` };
+    }
+
     return {
-      file: this.componentInfo.filePath,
-      line: 1,
-      column: 1,
-      snippet: '@Component({',
+      description: 'Set changeDetection to ChangeDetectionStrategy.OnPush',
+      edits: [edit, ...addNamedImports(this.sourceFile, filePath, '@angular/core', ['ChangeDetectionStrategy'])],
     };
   }
 
-  private findFunctionCallsInTemplate(
-    template: string
-  ): Array<{ functionName: string; location: CodeLocation }> {
+  /**
+   * Adds `trackBy: trackById` to an *ngFor over items with ids, generating
+   * the method when the class doesn't have one
+   */
+  private getTrackByAutofix(ngFor: TemplateAttribute): Autofix | undefined {
+    const iterable = /^\s*let\s+\w+\s+of\s+([^;,]+)/.exec(ngFor.value)?.[1];
+    if (
+      /\btrackBy\b/.test(ngFor.value) ||
+      !ngFor.valueSpan ||
+      !iterable ||
+      // Tracking by a missing id would make every item look the same
+      this.resolveItemsHaveId(iterable) !== true
+    ) {
+      return undefined;
+    }
+
+    const existing = this.getClassMember('trackById');
+    if (existing && !ts.isMethodDeclaration(existing)) return undefined;
+
+    const indent = this.getMemberIndent();
+    const edits = [
+      this.getTemplateEdit(ngFor.valueSpan.start + ngFor.value.trimEnd().length, '; trackBy: trackById'),
+    ];
+    if (!existing) {
+      edits.push(
+        this.getClassMemberEdit(
+          `trackById(index: number, item: { id: unknown }): unknown {\n${indent}  return item.id;\n${indent}}`,
+          'end'
+        )
+      );
+    }
+    return { description: 'Track *ngFor items by id with a trackById method', edits };
+  }
+
+  /** Adds a `track` expression to an @for block without one */
+  private getForTrackAutofix(loopExpression: string, parametersSpan: SourceSpan): Autofix {
+    const item = this.extractItemVariable(loopExpression);
+    const iterable = /\bof\s+([^;]+)/.exec(loopExpression)?.[1];
+    const track = iterable && this.resolveItemsHaveId(iterable) === true ? `${item}.id` : item;
+    const parameters = this.componentInfo.templateCode!.slice(parametersSpan.start, parametersSpan.end);
+    return {
+      description: `Track @for items with track ${track}`,
+      edits: [this.getTemplateEdit(parametersSpan.start + parameters.trimEnd().length, `; track ${track}`)],
+    };
+  }
+
+  /**
+   * Pipes a subscription through takeUntilDestroyed(). Outside the injection
+   * context (constructor and field initializers) it needs a DestroyRef, which
+   * is injected when the class has none.
+   */
+  private getTakeUntilDestroyedAutofix(subscribeCall: ts.CallExpression): Autofix | undefined {
+    const filePath = this.componentInfo.filePath;
+    const source = (subscribeCall.expression as ts.PropertyAccessExpression).expression;
+    const edits: TextEdit[] = [];
+
+    let destroyRef = '';
+    if (!this.isInInjectionContext(subscribeCall)) {
+      const member = this.findDestroyRefMember();
+      if (member) {
+        destroyRef = `this.${member}`;
+      } else {
+        if (this.getClassMember('destroyRef')) return undefined;
+        destroyRef = 'this.destroyRef';
+        edits.push(
+          this.getClassMemberEdit('private readonly destroyRef = inject(DestroyRef);', 'start'),
+          ...addNamedImports(this.sourceFile, filePath, '@angular/core', ['DestroyRef', 'inject'])
+        );
+      }
+    }
+
+    const operator = `takeUntilDestroyed(${destroyRef})`;
+    if (
+      ts.isCallExpression(source) &&
+      ts.isPropertyAccessExpression(source.expression) &&
+      source.expression.name.text === 'pipe'
+    ) {
+      const last = source.arguments[source.arguments.length - 1];
+      if (last) {
+        const text = this.sourceFile.text;
+        const multiline = text.slice(source.arguments.pos, last.getStart()).includes('\n');
+        const separator = multiline ? `,\n${getLineIndent(text, last.getStart())}` : ', ';
+        edits.push({ filePath, start: last.getEnd(), end: last.getEnd(), newText: `${separator}${operator}` });
+      } else {
+        edits.push({ filePath, start: source.getEnd() - 1, end: source.getEnd() - 1, newText: operator });
+      }
+    } else {
+      edits.push({ filePath, start: source.getEnd(), end: source.getEnd(), newText: `.pipe(${operator})` });
+    }
+
+    return {
+      description: `Pipe the subscription through ${operator}`,
+      edits: [
+        ...edits,
+        ...addNamedImports(this.sourceFile, filePath, '@angular/core/rxjs-interop', ['takeUntilDestroyed']),
+      ],
+    };
+  }
+
+  /** Constructors and field initializers can call inject() */
+  private isInInjectionContext(node: ts.Node): boolean {
+    let current: ts.Node | undefined = node.parent;
+    while (current && !ts.isClassDeclaration(current)) {
+      if (ts.isConstructorDeclaration(current) || ts.isPropertyDeclaration(current)) return true;
+      if (ts.isFunctionLike(current)) return false;
+      current = current.parent;
+    }
+    return false;
+  }
+
+  /** Member holding a DestroyRef, from `inject(DestroyRef)` or a constructor parameter */
+  private findDestroyRefMember(): string | undefined {
+    for (const member of this.getComponentClass()?.members || []) {
+      if (
+        ts.isPropertyDeclaration(member) &&
+        ts.isIdentifier(member.name) &&
+        (/^inject\(\s*DestroyRef\s*\)$/.test(member.initializer?.getText() || '') ||
+          member.type?.getText() === 'DestroyRef')
+      ) {
+        return member.name.text;
+      }
+      if (ts.isConstructorDeclaration(member)) {
+        const parameter = member.parameters.find(
+          (param) =>
+            ts.isIdentifier(param.name) &&
+            param.type?.getText() === 'DestroyRef' &&
+            !!ts.getModifiers(param)?.length
+        );
+        if (parameter) return (parameter.name as ts.Identifier).text;
+      }
+    }
+    return undefined;
+  }
+
+  /** Inserts a member at the start or end of the class body */
+  private getClassMemberEdit(member: string, position: 'start' | 'end'): TextEdit {
+    const members = this.getComponentClass()!.members;
+    const indent = this.getMemberIndent();
+    const offset = position === 'start' || members.length === 0 ? members.pos : members.end;
+    return {
+      filePath: this.componentInfo.filePath,
+      start: offset,
+      end: offset,
+      newText:
+        position === 'end' && members.length > 0 ? `\n\n${indent}${member}` : `\n${indent}${member}\n`,
+    };
+  }
+
+  private getMemberIndent(): string {
+    const first = this.getComponentClass()?.members[0];
+    return first ? getLineIndent(this.sourceFile.text, first.getStart()) : '  ';
+  }
+
+  /** Insertion at a template offset, in the component or templateUrl file */
+  private getTemplateEdit(templateStart: number, newText: string): TextEdit {
+    const start = (this.componentInfo.templateOffset ?? 0) + templateStart;
+    return {
+      filePath: this.componentInfo.templatePath || this.componentInfo.filePath,
+      start,
+      end: start,
+      newText,
+    };
+  }
+
+  // Helper methods for analysis
+  /**
+   * Points at the `changeDetection` property when present, otherwise at the
+   * component decorator
+   */
+  private getChangeDetectionLocation(): CodeLocation {
+    const componentClass = this.getComponentClass();
+    const decorator = componentClass && this.getAngularDecorator(componentClass)?.decorator;
+    if (!decorator) {
+      return this.getClassNameLocation();
+    }
+
+    const arg = decorator.arguments[0];
+    const changeDetection =
+      arg &&
+      ts.isObjectLiteralExpression(arg) &&
+      arg.properties.find(
+        (prop) =>
+          ts.isPropertyAssignment(prop) &&
+          ts.isIdentifier(prop.name) &&
+          prop.name.text === 'changeDetection'
+      );
+    if (changeDetection) {
+      return this.getNodeLocation(changeDetection);
+    }
+
+    return this.getDecoratorLocation(
+      decorator,
+      this.sourceFile,
+      this.componentInfo.filePath
+    );
+  }
+
+  /**
+   * Spans the whole decorator including the '@'; the snippet is its first line
+   */
+  private getDecoratorLocation(
+    decorator: ts.CallExpression,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): CodeLocation {
+    const node = decorator.parent;
+    return this.getRangeLocation(
+      sourceFile,
+      filePath,
+      node.getStart(sourceFile),
+      node.getEnd(),
+      node.getText(sourceFile).split('\n')[0]
+    );
+  }
+
+  private getClassNameLocation(): CodeLocation {
+    const componentClass = this.getComponentClass();
+    return componentClass?.name
+      ? this.getNodeLocation(componentClass.name)
+      : this.getRangeLocation(this.sourceFile, this.componentInfo.filePath, 0, 0);
+  }
+
+  /**
+   * Calls in every binding Angular evaluates during change detection.
+   * Event handlers are excluded, and so are `@for` track expressions.
+   */
+  private findFunctionCallsInTemplate(template: string): Array<{
+    functionName: string;
+    inLoop: boolean;
+    location: CodeLocation;
+  }> {
     const functionCalls: Array<{
       functionName: string;
+      inLoop: boolean;
       location: CodeLocation;
     }> = [];
-    const regex = /\{\{\s*(\w+)\s*\(\s*\)\s*\}\}/g;
-    let match;
 
-    while ((match = regex.exec(template)) !== null) {
-      functionCalls.push({
-        functionName: match[1],
-        location: {
-          file: this.componentInfo.templatePath || 'inline template',
-          line: this.getLineNumber(template, match.index),
-          column: this.getColumnNumber(template, match.index),
-          snippet: match[0],
-        },
-      });
-    }
+    this.getTemplateExpressions().forEach(({ expression, start, node, ancestors }) => {
+      const evaluated =
+        node.kind === 'block' && node.name === 'for'
+          ? expression.split(';')[0]
+          : expression;
+      const inLoop = this.isEvaluatedPerItem(expression, node, ancestors);
+
+      findCallExpressions(evaluated)
+        .filter((call) => call.name !== '$any')
+        .forEach((call) => {
+          functionCalls.push({
+            functionName: call.name,
+            inLoop,
+            location: this.getTemplateLocation(
+              template,
+              start + call.start,
+              start + call.end
+            ),
+          });
+        });
+    });
 
     return functionCalls;
   }
 
+  /**
+   * Getters with costly bodies and long pipe chains re-evaluated on every
+   * change detection
+   */
+  private findUnnecessaryComputations(template: string): ChangeDetectionProblem[] {
+    const issues: ChangeDetectionProblem[] = [];
+
+    this.getTemplateExpressions().forEach(({ expression, start, node, ancestors }) => {
+      const where = this.isEvaluatedPerItem(expression, node, ancestors)
+        ? ' inside a loop'
+        : '';
+
+      findPropertyReads(expression)
+        .filter((read) => this.getMemberKind(read.name) === 'getter')
+        .forEach((read) => {
+          const operations = this.getMemberCost(read.name);
+          if (operations.length === 0) return;
+
+          issues.push({
+            type: 'unnecessary-computation',
+            severity: where || operations.some((op) => op !== 'array iteration') ? 'high' : 'medium',
+            location: this.getTemplateLocation(template, start + read.start, start + read.end),
+            description: `Getter '${read.name}'${where} re-runs heavy work (${operations.join(', ')}) on every change detection`,
+            estimatedImpact: 'Repeated work and a new result reference on each check',
+            fix: `Turn '${read.name}' into a computed signal or a property updated when its inputs change`,
+          });
+        });
+
+      const pipes = splitPipes(expression).slice(1);
+      if (pipes.length >= this.thresholds.minPipeChainLength) {
+        const names = pipes.map((pipe) => pipe.split(':')[0].trim());
+        const volatile =
+          names.some((name) =>
+            this.pipeRegistry.has(name)
+              ? !this.pipeRegistry.get(name)!.pure
+              : BUILTIN_IMPURE_PIPES.includes(name)
+          ) || findCallExpressions(splitPipes(expression)[0]).length > 0;
+
+        issues.push({
+          type: 'unnecessary-computation',
+          severity: volatile ? 'medium' : 'low',
+          location: this.getTemplateLocation(template, start, start + expression.length),
+          description: `Chain of ${pipes.length} pipes (${names.join(' → ')})${where}${
+            volatile ? ' re-evaluates on every change detection' : ' transforms the same value in several passes'
+          }`,
+          estimatedImpact: 'Each stage runs whenever its input changes',
+          fix: 'Combine the stages into one pure pipe or a computed signal',
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * True when an expression runs once per loop item: inside a loop, or
+   * bound on the `*ngFor` element itself (other than the loop expression)
+   */
+  private isEvaluatedPerItem(
+    expression: string,
+    node: TemplateNode,
+    ancestors: TemplateNode[]
+  ): boolean {
+    if (ancestors.some((ancestor) => this.isTemplateLoop(ancestor))) return true;
+    return (
+      node.kind === 'element' &&
+      this.isTemplateLoop(node) &&
+      !/^\s*let\s/.test(expression)
+    );
+  }
+
+  /**
+   * Costly operations in the body of a class method or getter
+   */
+  private getMemberCost(name: string): string[] {
+    const member = this.getClassMember(name.replace(/^this\./, ''));
+    const body =
+      member && (ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member))
+        ? member.body
+        : undefined;
+    return body ? this.findExpensiveOperations(body, 1) : [];
+  }
+
   private findObjectComparisonsInTemplate(
     template: string
   ): Array<{ expression: string; location: CodeLocation }> {
     const comparisons: Array<{ expression: string; location: CodeLocation }> =
       [];
-    const regex = /\*ngIf\s*=\s*"([^"]*\.\w+\s*===?\s*[^"]*)/g;
-    let match;
+    const comparisonPattern = /\.\w+\s*===?/;
+
+    const addComparison = (expression: string, span: SourceSpan) => {
+      // Ignore the `; else tpl` / `; as alias` part of the condition
+      const condition = expression.split(';')[0].trim();
+      if (comparisonPattern.test(condition)) {
+        comparisons.push({
+          expression: condition,
+          location: this.getTemplateLocation(template, span.start, span.end),
+        });
+      }
+    };
 
-    while ((match = regex.exec(template)) !== null) {
-      comparisons.push({
-        expression: match[1],
-        location: {
-          file: this.componentInfo.templatePath || 'inline template',
-          line: this.getLineNumber(template, match.index),
-          column: this.getColumnNumber(template, match.index),
-          snippet: match[0],
-        },
-      });
-    }
+    walkTemplate(this.templateAst.nodes, (node) => {
+      if (node.kind === 'element') {
+        node.attributes
+          .filter(
+            (attr) =>
+              attr.name === 'ngIf' &&
+              (attr.kind === 'structural' || attr.kind === 'property')
+          )
+          .forEach((attr) => addComparison(attr.value, attr.span));
+      } else if (
+        node.kind === 'block' &&
+        (node.name === 'if' || node.name === 'else if') &&
+        node.parametersSpan
+      ) {
+        addComparison(node.parameters, {
+          start: node.span.start,
+          end: node.parametersSpan.end + 1,
+        });
+      }
+    });
 
     return comparisons;
   }
@@ -666,6 +3145,7 @@ export class PerformanceAnalyzer {
     estimatedSize?: number;
     isModernSyntax?: boolean;
     recommendedTracking?: string;
+    autofix?: Autofix;
   }> {
     const loops: Array<{
       location: CodeLocation;
@@ -673,294 +3153,1494 @@ export class PerformanceAnalyzer {
       estimatedSize?: number;
       isModernSyntax?: boolean;
       recommendedTracking?: string;
+      autofix?: Autofix;
     }> = [];
-    
-    // Legacy *ngFor syntax
-    const ngForRegex = /\*ngFor\s*=\s*"([^"]*)"/g;
-    let match;
 
-    while ((match = ngForRegex.exec(template)) !== null) {
-      const hasTrackBy = match[1].includes('trackBy');
-      loops.push({
-        location: {
-          file: this.componentInfo.templatePath || 'inline template',
-          line: this.getLineNumber(template, match.index),
-          column: this.getColumnNumber(template, match.index),
-          snippet: match[0],
-        },
-        hasTrackBy,
-        estimatedSize: this.estimateLoopSize(match[1]),
-        isModernSyntax: false
+    walkTemplate(this.templateAst.nodes, (node) => {
+      if (node.kind === 'element') {
+        // Legacy *ngFor syntax
+        const ngFor = node.attributes.find(
+          (attr) => attr.kind === 'structural' && attr.name === 'ngFor'
+        );
+        if (ngFor) {
+          loops.push({
+            location: this.getTemplateLocation(
+              template,
+              ngFor.span.start,
+              ngFor.span.end
+            ),
+            hasTrackBy: /\btrackBy\b/.test(ngFor.value),
+            estimatedSize: this.estimateLoopSize(ngFor.value),
+            isModernSyntax: false,
+            autofix: this.getTrackByAutofix(ngFor),
+          });
+        }
+
+        // Desugared <ng-template ngFor let-item [ngForOf]="items"> form
+        const ngForOf = node.attributes.find(
+          (attr) => attr.kind === 'property' && attr.name === 'ngForOf'
+        );
+        if (node.name === 'ng-template' && ngForOf) {
+          const itemVariable = node.attributes.find(
+            (attr) => attr.kind === 'template-variable' && !attr.value
+          );
+          const loopExpression = `let ${itemVariable?.name || 'item'} of ${ngForOf.value}`;
+          loops.push({
+            location: this.getTemplateLocation(
+              template,
+              node.startTagSpan.start,
+              node.startTagSpan.end
+            ),
+            hasTrackBy: node.attributes.some(
+              (attr) => attr.kind === 'property' && attr.name === 'ngForTrackBy'
+            ),
+            estimatedSize: this.estimateLoopSize(loopExpression),
+            isModernSyntax: false,
+          });
+        }
+      } else if (node.kind === 'block' && node.name === 'for') {
+        // Modern @for syntax
+        const [loopExpression, ...options] = node.parameters.split(';');
+        const trackOption = options.find((option) =>
+          /^\s*track\b/.test(option)
+        );
+        const trackExpression = trackOption?.replace(/^\s*track\s*/, '').trim();
+
+        // Analyze the loop expression for smart tracking recommendations
+        const recommendedTracking = this.analyzeForTrackingRecommendation(
+          loopExpression.trim(),
+          trackExpression
+        );
+        const headerEnd = node.parametersSpan
+          ? node.parametersSpan.end + 1
+          : node.span.start + 4;
+
+        loops.push({
+          location: this.getTemplateLocation(template, node.span.start, headerEnd),
+          hasTrackBy: trackExpression !== undefined,
+          estimatedSize: this.estimateLoopSize(loopExpression),
+          isModernSyntax: true,
+          recommendedTracking,
+          autofix:
+            trackExpression === undefined && node.parametersSpan
+              ? this.getForTrackAutofix(loopExpression.trim(), node.parametersSpan)
+              : undefined,
+        });
+      }
+    });
+
+    return loops;
+  }
+
+  private analyzeForTrackingRecommendation(loopExpression: string, currentTracking?: string): string | undefined {
+    if (currentTracking) {
+      // Already has tracking, check if it could be improved
+      if (currentTracking.includes('$index') && this.hasIdProperty(loopExpression)) {
+        return 'Consider tracking by object id instead of $index for better performance';
+      }
+      return undefined;
+    }
+
+    // No tracking, provide recommendation
+    if (this.hasIdProperty(loopExpression)) {
+      const itemVar = this.extractItemVariable(loopExpression);
+      return `Add tracking: track ${itemVar}.id`;
+    } else {
+      const itemVar = this.extractItemVariable(loopExpression);
+      return `Add tracking: track ${itemVar}`;
+    }
+  }
+
+  private hasIdProperty(loopExpression: string): boolean {
+    // Simple heuristic: if the array variable contains 'item', 'user', 'product', etc.
+    // and typically has id properties, suggest id tracking
+    const commonIdPatterns = /\b(items?|users?|products?|entities?|records?|data|list|todos?|tasks?|messages?|posts?)\b/i;
+    return commonIdPatterns.test(loopExpression);
+  }
+
+  private extractItemVariable(loopExpression: string): string {
+    // Extract item variable from expressions like "let item of items" or "item of collection; let i = $index"
+    const match = loopExpression.match(/let\s+(\w+)\s+of|(\w+)\s+of/);
+    return match ? (match[1] || match[2]) : 'item';
+  }
+
+  private findSubscriptionUsagesInTemplate(
+    template: string
+  ): Array<{ location: CodeLocation }> {
+    const usages: Array<{ location: CodeLocation }> = [];
+
+    this.getTemplateInterpolations().forEach((interpolation) => {
+      if (
+        /^[A-Za-z_$][\w$]*$/.test(interpolation.expression) &&
+        (this.isObservableMember(interpolation.expression) ??
+          this.isSubscriptionVariable(interpolation.expression))
+      ) {
+        usages.push({
+          location: this.getTemplateLocation(
+            template,
+            interpolation.span.start,
+            interpolation.span.end
+          ),
+        });
+      }
+    });
+
+    return usages;
+  }
+
+  private getTemplateInterpolations(): TemplateInterpolation[] {
+    const interpolations: TemplateInterpolation[] = [];
+
+    walkTemplate(this.templateAst.nodes, (node) => {
+      if (node.kind === 'text') {
+        interpolations.push(...node.interpolations);
+      } else if (node.kind === 'element') {
+        node.attributes.forEach((attr) =>
+          interpolations.push(...attr.interpolations)
+        );
+      }
+    });
+
+    return interpolations;
+  }
+
+  /**
+   * Every expression Angular evaluates during change detection: interpolations,
+   * property/structural bindings, block parameters and @let values, with the
+   * template offset of the expression start
+   */
+  private getTemplateExpressions(): Array<{
+    expression: string;
+    start: number;
+    node: TemplateNode;
+    ancestors: TemplateNode[];
+  }> {
+    const expressions: Array<{
+      expression: string;
+      start: number;
+      node: TemplateNode;
+      ancestors: TemplateNode[];
+    }> = [];
+
+    walkTemplate(this.templateAst.nodes, (node, ancestors) => {
+      if (node.kind === 'text') {
+        node.interpolations.forEach((interpolation) =>
+          expressions.push({
+            expression: interpolation.expression,
+            start: interpolation.expressionSpan.start,
+            node,
+            ancestors,
+          })
+        );
+      } else if (node.kind === 'element') {
+        node.attributes.forEach((attr) => {
+          attr.interpolations.forEach((interpolation) =>
+            expressions.push({
+              expression: interpolation.expression,
+              start: interpolation.expressionSpan.start,
+              node,
+              ancestors,
+            })
+          );
+          if (
+            attr.valueSpan &&
+            ['property', 'two-way', 'structural'].includes(attr.kind)
+          ) {
+            expressions.push({ expression: attr.value, start: attr.valueSpan.start, node, ancestors });
+          }
+        });
+      } else if (node.kind === 'block' && node.parametersSpan) {
+        expressions.push({
+          expression: node.parameters,
+          start: node.parametersSpan.start,
+          node,
+          ancestors,
+        });
+      } else if (node.kind === 'let') {
+        expressions.push({ expression: node.value, start: node.valueSpan.start, node, ancestors });
+      }
+    });
+
+    return expressions;
+  }
+
+  private isTemplateLoop(node: TemplateNode): boolean {
+    return (
+      (node.kind === 'block' && node.name === 'for') ||
+      (node.kind === 'element' &&
+        node.attributes.some(
+          (attr) =>
+            (attr.kind === 'structural' && attr.name === 'ngFor') ||
+            (attr.kind === 'property' && attr.name === 'ngForOf')
+        ))
+    );
+  }
+
+  private findManualSubscriptions(): Array<{
+    location: CodeLocation;
+    variableName: string;
+    cleanup?: string;
+    longLivedSource?: string;
+    misplacedTakeUntil?: { operator: string; flattening: string };
+    call: ts.CallExpression;
+  }> {
+    const subscriptions: Array<{
+      location: CodeLocation;
+      variableName: string;
+      cleanup?: string;
+      longLivedSource?: string;
+      misplacedTakeUntil?: { operator: string; flattening: string };
+      call: ts.CallExpression;
+    }> = [];
+    const teardown = this.collectTeardownCode();
+
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.name.text === 'subscribe' &&
+        // In type-aware mode, skip `.subscribe` on things that aren't observables
+        this.resolveIsObservable(node.expression.expression) !== false
+      ) {
+        subscriptions.push({
+          location: this.getNodeLocation(node),
+          variableName: node.expression.expression.getText(),
+          cleanup: this.findSubscriptionCleanup(node, teardown),
+          longLivedSource: this.findLongLivedSource(node.expression.expression),
+          misplacedTakeUntil: this.findMisplacedTakeUntil(node),
+          call: node,
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(this.componentClass);
+    return subscriptions;
+  }
+
+  /**
+   * Collects the code that runs when the component is destroyed:
+   * the ngOnDestroy body and every `DestroyRef.onDestroy` callback.
+   * Whitespace is stripped so lookups are formatting-independent.
+   */
+  private collectTeardownCode(): string {
+    const componentClass = this.getComponentClass();
+    if (!componentClass) return '';
+
+    const parts: string[] = [];
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isMethodDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === 'ngOnDestroy' &&
+        node.body
+      ) {
+        parts.push(node.body.getText());
+      } else if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.name.text === 'onDestroy' &&
+        node.arguments[0]
+      ) {
+        parts.push(node.arguments[0].getText());
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(componentClass);
+    return parts.join('\n').replace(/\s+/g, '');
+  }
+
+  /**
+   * Returns how a subscription is cleaned up, or undefined when no cleanup
+   * can be proven from the component source.
+   */
+  private findSubscriptionCleanup(
+    subscribeCall: ts.CallExpression,
+    teardown: string
+  ): string | undefined {
+    // Completing or self-terminating operators in the pipe. takeUntil doesn't
+    // stop inner subscriptions of flattening operators after it.
+    if (!this.findMisplacedTakeUntil(subscribeCall)) {
+      for (const operator of this.getPipeOperators(subscribeCall)) {
+        const name = (operator.expression as ts.Identifier).text;
+        if (name === 'takeUntilDestroyed' || name === 'first') {
+          return name;
+        }
+        if (name === 'take' && operator.arguments[0] && ts.isNumericLiteral(operator.arguments[0])) {
+          return 'take';
+        }
+        if (name === 'takeUntil' && operator.arguments[0]) {
+          const notifier = this.normalizeReference(operator.arguments[0].getText());
+          if (this.teardownCalls(teardown, notifier, ['next', 'complete', 'emit'])) {
+            return 'takeUntil';
+          }
+        }
+      }
+    }
+
+    // The Subscription is stored and released on destroy
+    const stored = this.getSubscriptionHandle(subscribeCall);
+    if (stored) {
+      if (this.teardownCalls(teardown, stored, ['unsubscribe'])) {
+        return 'unsubscribe';
+      }
+      const containerReleased = this.findSubscriptionContainers(stored).some(
+        (container) =>
+          this.teardownCalls(teardown, container, ['unsubscribe']) ||
+          this.teardownUnsubscribesEach(teardown, container)
+      );
+      if (containerReleased) {
+        return 'subscription.add';
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The expression that holds the returned Subscription: an assignment target,
+   * a variable or property name, or a container passed to `.add`/`.push`.
+   */
+  private getSubscriptionHandle(subscribeCall: ts.CallExpression): string | undefined {
+    const parent = subscribeCall.parent;
+
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      parent.right === subscribeCall
+    ) {
+      return this.normalizeReference(parent.left.getText());
+    }
+    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    if (ts.isPropertyDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return `this.${parent.name.text}`;
+    }
+    if (
+      ts.isCallExpression(parent) &&
+      ts.isPropertyAccessExpression(parent.expression) &&
+      ['add', 'push'].includes(parent.expression.name.text)
+    ) {
+      return this.normalizeReference(parent.expression.expression.getText());
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Containers a stored subscription is later added to, e.g. `this.subs.add(sub)`
+   */
+  private findSubscriptionContainers(handle: string): string[] {
+    const containers = [handle];
+    const classText = this.getComponentClass()?.getText().replace(/\s+/g, '') || '';
+    const pattern = new RegExp(
+      `([\\w$.?]+)\\.(?:add|push)\\(${handle.replace(/[.$?]/g, '\\$&')}\\)`,
+      'g'
+    );
+    let match;
+    while ((match = pattern.exec(classText)) !== null) {
+      containers.push(this.normalizeReference(match[1]));
+    }
+    return containers;
+  }
+
+  /**
+   * Operator calls piped right before `.subscribe`, e.g. `map(...)` in
+   * `source.pipe(map(...)).subscribe()`
+   */
+  private getPipeOperators(subscribeCall: ts.CallExpression): ts.CallExpression[] {
+    const source = (subscribeCall.expression as ts.PropertyAccessExpression).expression;
+    if (
+      !ts.isCallExpression(source) ||
+      !ts.isPropertyAccessExpression(source.expression) ||
+      source.expression.name.text !== 'pipe'
+    ) {
+      return [];
+    }
+    return source.arguments.filter(
+      (operator): operator is ts.CallExpression =>
+        ts.isCallExpression(operator) && ts.isIdentifier(operator.expression)
+    );
+  }
+
+  /**
+   * A takeUntil/takeUntilDestroyed followed by a flattening operator, whose
+   * inner subscriptions keep running after the notifier fires
+   */
+  private findMisplacedTakeUntil(
+    subscribeCall: ts.CallExpression
+  ): { operator: string; flattening: string } | undefined {
+    const names = this.getPipeOperators(subscribeCall).map(
+      (operator) => (operator.expression as ts.Identifier).text
+    );
+    const index = names.findIndex((name) => name === 'takeUntil' || name === 'takeUntilDestroyed');
+    const flattening = names
+      .slice(index + 1)
+      .find((name) => ['switchMap', 'mergeMap', 'concatMap', 'exhaustMap'].includes(name));
+    return index !== -1 && flattening ? { operator: names[index], flattening } : undefined;
+  }
+
+  /**
+   * `container.forEach((sub) => sub.unsubscribe())` in the teardown code
+   */
+  private teardownUnsubscribesEach(teardown: string, container: string): boolean {
+    const normalized = teardown.replace(/\?\./g, '.').replace(/!\./g, '.');
+    const call = `${container}.forEach(`;
+    for (let start = normalized.indexOf(call); start !== -1; start = normalized.indexOf(call, start + 1)) {
+      // The callback, up to the closing parenthesis of forEach
+      let depth = 1;
+      let end = start + call.length;
+      for (; end < normalized.length && depth > 0; end++) {
+        if (normalized[end] === '(') depth++;
+        if (normalized[end] === ')') depth--;
+      }
+      if (/\bunsubscribe\b/.test(normalized.slice(start + call.length, end))) return true;
+    }
+    return false;
+  }
+
+  private teardownCalls(teardown: string, target: string, methods: string[]): boolean {
+    const normalized = teardown.replace(/\?\./g, '.').replace(/!\./g, '.');
+    return methods.some((method) => normalized.includes(`${target}.${method}(`));
+  }
+
+  private normalizeReference(reference: string): string {
+    return reference.replace(/\s+/g, '').replace(/\?\./g, '.').replace(/!\./g, '.');
+  }
+
+  /**
+   * Name of the long-lived source behind a subscription (router events, form
+   * value changes, intervals, store selections, ...) or undefined when the
+   * source is expected to complete on its own, like an HttpClient request.
+   */
+  private findLongLivedSource(source: ts.Expression): string | undefined {
+    // Operators don't change how long the source lives
+    while (
+      ts.isCallExpression(source) &&
+      ts.isPropertyAccessExpression(source.expression) &&
+      source.expression.name.text === 'pipe'
+    ) {
+      source = source.expression.expression;
+    }
+
+    const text = source.getText().replace(/\s+/g, '');
+    if (/\bhttp\w*\.(get|post|put|patch|delete|head|options|request)\b/i.test(text)) {
+      return undefined;
+    }
+
+    const longLivedPatterns: Array<[RegExp, string]> = [
+      [/\binterval\(/, 'interval'],
+      [/\btimer\([^,()]+,/, 'timer'],
+      [/\bfromEvent\(/, 'fromEvent'],
+      [/\.(valueChanges|statusChanges)\b/, 'form changes'],
+      [/\brouter\.events\b/i, 'router events'],
+      [/\bstore\.(select|pipe)\b|\bstore\b.*\bselect\(/i, 'store'],
+      [/\.observe\(/, 'breakpoint observer'],
+      [/\.asObservable\(\)/, 'subject'],
+    ];
+
+    const match = longLivedPatterns.find(([pattern]) => pattern.test(text));
+    // A `$` name alone says nothing about completion; the type might
+    return match?.[1] ?? this.resolveLongLivedType(source);
+  }
+
+  /**
+   * Name of the Subject or Store type behind an expression, in type-aware mode
+   */
+  private resolveLongLivedType(expression: ts.Expression): string | undefined {
+    const checker = this.activeTypeChecker;
+    if (!checker) return undefined;
+
+    const find = (type: ts.Type): string | undefined => {
+      const symbol = type.aliasSymbol || type.getSymbol();
+      if (!symbol) return undefined;
+      if (LONG_LIVED_TYPE_NAMES.includes(symbol.getName())) return symbol.getName();
+      // Subclasses, e.g. a service extending BehaviorSubject
+      const declared = checker.getDeclaredTypeOfSymbol(symbol);
+      return declared.isClassOrInterface()
+        ? checker.getBaseTypes(declared).map(find).find(Boolean)
+        : undefined;
+    };
+    return find(checker.getNonNullableType(checker.getTypeAtLocation(expression)));
+  }
+
+  private findImports(): Array<{ moduleName: string; location: CodeLocation }> {
+    const imports: Array<{ moduleName: string; location: CodeLocation }> = [];
+
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isImportDeclaration(node) &&
+        node.moduleSpecifier &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        imports.push({
+          moduleName: node.moduleSpecifier.text,
+          location: this.getNodeLocation(node),
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(this.sourceFile);
+    return imports;
+  }
+
+  private estimateLoopSize(ngForExpression: string): number | undefined {
+    // This is a simplified estimation - in real implementation, you'd analyze the component
+    // to understand the data source size
+    if (
+      ngForExpression.includes('users') ||
+      ngForExpression.includes('items')
+    ) {
+      return 50; // Estimated average
+    }
+    return undefined;
+  }
+
+  // Type-aware helpers: these return undefined when no type checker is active
+  // or the type cannot be resolved, so callers can fall back to heuristics
+
+  private resolveIsObservable(expression: ts.Expression): boolean | undefined {
+    if (!this.activeTypeChecker) return undefined;
+    return this.isObservableType(
+      this.activeTypeChecker.getTypeAtLocation(expression)
+    );
+  }
+
+  /**
+   * Whether the items of a loop's iterable (`items`, `items()` or
+   * `items$ | async`) are known to have an `id` property
+   */
+  private resolveItemsHaveId(iterable: string): boolean | undefined {
+    const checker = this.activeTypeChecker;
+    const match = /^\s*(?:this\.)?(\w+)(\(\))?\s*(\|\s*async\s*)?$/.exec(iterable);
+    const member = match && this.getClassMember(match[1]);
+    if (!checker || !match || !member) return undefined;
+
+    let type: ts.Type | undefined = checker.getTypeAtLocation(member);
+    if (match[2]) {
+      type = type.getCallSignatures()[0]?.getReturnType();
+    }
+    if (type && match[3]) {
+      // Observable<T[]>: the emitted value type
+      type =
+        (checker.getNonNullableType(type) as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference
+          ? checker.getTypeArguments(checker.getNonNullableType(type) as ts.TypeReference)[0]
+          : undefined;
+    }
+    if (!type) return undefined;
+
+    const itemType = checker.getIndexTypeOfType(checker.getNonNullableType(type), ts.IndexKind.Number);
+    if (!itemType || itemType.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return undefined;
+    }
+    return !!checker.getPropertyOfType(itemType, 'id');
+  }
+
+  private isObservableType(type: ts.Type): boolean | undefined {
+    const checker = this.activeTypeChecker!;
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return undefined;
+    }
+    if (type.isUnion()) {
+      return type.types.some((member) => this.isObservableType(member));
+    }
+
+    const symbolName = (type.aliasSymbol || type.getSymbol())?.getName();
+    if (symbolName && OBSERVABLE_TYPE_NAMES.includes(symbolName)) {
+      return true;
+    }
+
+    // Structural fallback for custom Observable subclasses and interop types
+    return (
+      !!checker.getPropertyOfType(type, 'subscribe') &&
+      !!checker.getPropertyOfType(type, 'pipe')
+    );
+  }
+
+  private isSignalType(type: ts.Type): boolean {
+    const symbolName = (type.aliasSymbol || type.getSymbol())?.getName();
+    return !!symbolName && SIGNAL_TYPE_NAMES.includes(symbolName);
+  }
+
+  private getComponentClass(): ts.ClassDeclaration | undefined {
+    return this.componentClass;
+  }
+
+  private getClassMember(name: string): ts.ClassElement | undefined {
+    return this.getComponentClass()?.members.find(
+      (member) =>
+        member.name &&
+        (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name)) &&
+        member.name.text === name
+    );
+  }
+
+  /**
+   * Classifies a template-bound member. Getters and methods are known from
+   * syntax alone; signals need the type checker.
+   */
+  private getMemberKind(
+    name: string
+  ): 'getter' | 'method' | 'signal' | 'property' | undefined {
+    const member = this.getClassMember(name.replace(/^this\./, ''));
+    if (!member) return undefined;
+    if (ts.isGetAccessorDeclaration(member)) return 'getter';
+    if (ts.isMethodDeclaration(member)) return 'method';
+    if (this.isSignalInitializer(member)) return 'signal';
+    if (
+      this.activeTypeChecker &&
+      this.isSignalType(this.activeTypeChecker.getTypeAtLocation(member))
+    ) {
+      return 'signal';
+    }
+    return 'property';
+  }
+
+  /**
+   * Names of class members holding signals: members initialized with a signal
+   * factory, plus anything the type checker resolves to a signal type.
+   */
+  private getSignalMembers(): Set<string> {
+    const members = new Set<string>();
+    this.getComponentClass()?.members.forEach((member) => {
+      if (
+        member.name &&
+        ts.isIdentifier(member.name) &&
+        this.getMemberKind(member.name.text) === 'signal'
+      ) {
+        members.add(member.name.text);
+      }
+    });
+    return members;
+  }
+
+  private isSignalInitializer(member: ts.ClassElement): boolean {
+    if (!ts.isPropertyDeclaration(member) || !member.initializer) return false;
+    const initializer = member.initializer;
+    if (!ts.isCallExpression(initializer)) return false;
+
+    // input.required(), viewChild.required(), ...
+    let callee = initializer.expression;
+    if (ts.isPropertyAccessExpression(callee) && callee.name.text === 'required') {
+      callee = callee.expression;
+    }
+    return ts.isIdentifier(callee) && SIGNAL_FACTORIES.includes(callee.text);
+  }
+
+  private isObservableMember(name: string): boolean | undefined {
+    const member = this.getClassMember(name);
+    if (!member || !this.activeTypeChecker) return undefined;
+    return this.isObservableType(
+      this.activeTypeChecker.getTypeAtLocation(member)
+    );
+  }
+
+  /**
+   * Type names of everything injected through the constructor or `inject()`.
+   * Undefined when type information is not available.
+   */
+  private getInjectedTypeNames(): string[] | undefined {
+    const checker = this.activeTypeChecker;
+    const componentClass = this.getComponentClass();
+    if (!checker || !componentClass) return undefined;
+
+    const names: string[] = [];
+    const addType = (node: ts.Node) => {
+      const symbol = checker.getTypeAtLocation(node).getSymbol();
+      if (symbol) names.push(symbol.getName());
+    };
+
+    componentClass.members.forEach((member) => {
+      if (ts.isConstructorDeclaration(member)) {
+        member.parameters.forEach(addType);
+      } else if (
+        ts.isPropertyDeclaration(member) &&
+        member.initializer &&
+        ts.isCallExpression(member.initializer) &&
+        ts.isIdentifier(member.initializer.expression) &&
+        member.initializer.expression.text === 'inject'
+      ) {
+        addType(member.initializer);
+      }
+    });
+
+    return names;
+  }
+
+  private isSubscriptionVariable(variableName: string): boolean {
+    // Check if variable name suggests it's from a subscription
+    return (
+      variableName.includes('$') ||
+      variableName.includes('subscription') ||
+      variableName.includes('observable') ||
+      variableName.includes('stream')
+    );
+  }
+
+  private isLargeLibrary(moduleName: string): boolean {
+    return this.config.largeLibraries.some((lib) => moduleName.includes(lib));
+  }
+
+  private getNodeLocation(node: ts.Node): CodeLocation {
+    return this.getRangeLocation(
+      this.sourceFile,
+      this.componentInfo.filePath,
+      node.getStart(),
+      node.getEnd()
+    );
+  }
+
+  private getRangeLocation(
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    start: number,
+    end: number,
+    snippet = sourceFile.text.substring(start, end)
+  ): CodeLocation {
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+    const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+    return {
+      file: filePath,
+      line: startPos.line + 1,
+      column: startPos.character + 1,
+      endLine: endPos.line + 1,
+      endColumn: endPos.character + 1,
+      snippet,
+    };
+  }
+
+  /**
+   * Maps a range within the template to a location. Inline templates are
+   * reported against the component file using the template's source offset,
+   * external ones against the templateUrl file.
+   */
+  private getTemplateLocation(
+    template: string,
+    start: number,
+    end: number
+  ): CodeLocation {
+    const offset = this.componentInfo.templateOffset;
+    if (offset !== undefined) {
+      return this.getRangeLocation(
+        this.sourceFile,
+        this.componentInfo.filePath,
+        offset + start,
+        offset + end,
+        template.substring(start, end)
+      );
+    }
+
+    return {
+      file: this.componentInfo.templatePath || this.componentInfo.filePath,
+      line: this.getLineNumber(template, start),
+      column: this.getColumnNumber(template, start),
+      endLine: this.getLineNumber(template, end),
+      endColumn: this.getColumnNumber(template, end),
+      snippet: template.substring(start, end),
+    };
+  }
+
+  private getLineNumber(text: string, index: number): number {
+    return text.substring(0, index).split('\n').length;
+  }
+
+  private getColumnNumber(text: string, index: number): number {
+    const lines = text.substring(0, index).split('\n');
+    return lines[lines.length - 1].length + 1;
+  }
+}
+
+// Usage example and CLI integration helper
+export class PerformanceAnalyzerCLI {
+  public static analyzeProject(
+    projectPath?: string,
+    options: AnalysisOptions = {}
+  ): ComponentAnalysis[] {
+    // Use current working directory if no path provided
+    const targetPath = projectPath || process.cwd();
+    return this.analyzeComponentFiles(targetPath, options, false).analyses;
+  }
+
+  public static analyzeProjectWithSummary(
+    projectPath?: string,
+    options: AnalysisOptions = {}
+  ): {
+    analyses: ComponentAnalysis[];
+    summary: ProjectSummary;
+  } {
+    // Use current working directory if no path provided
+    const targetPath = projectPath || process.cwd();
+    const { analyzer, analyses: results, failedFiles } = this.analyzeComponentFiles(
+      targetPath,
+      options,
+      true
+    );
+
+    const comparison = options.baselinePath
+      ? Baseline.load(options.baselinePath).compare(
+          results,
+          dirname(resolve(options.baselinePath)),
+          targetPath,
+          failedFiles
+        )
+      : undefined;
+    const analyses = comparison ? comparison.analyses : results;
+
+    const summary = this.generateProjectSummary(
+      analyses,
+      failedFiles.length,
+      options.reportUnusedDisables ? analyzer.getUnusedSuppressions() : undefined
+    );
+    if (comparison) {
+      summary.baseline = {
+        file: options.baselinePath!,
+        newIssues: comparison.newIssues,
+        baselinedIssues: comparison.baselinedIssues,
+        fixed: comparison.fixed,
+      };
+    }
+
+    return {
+      analyses,
+      summary,
+    };
+  }
+
+  /**
+   * Analyzes every component file under `targetPath`. Files that fail are
+   * logged and skipped.
+   */
+  private static analyzeComponentFiles(
+    targetPath: string,
+    options: AnalysisOptions,
+    logProgress: boolean
+  ): { analyzer: PerformanceAnalyzer; analyses: ComponentAnalysis[]; failedFiles: string[] } {
+    const analyses: ComponentAnalysis[] = [];
+    const failedFiles: string[] = [];
+    const analyzer = this.createAnalyzer(targetPath, options);
+
+    const componentFiles = this.findComponentFiles(targetPath, analyzer.getConfig());
+    analyzer.registerPipes(componentFiles);
+    analyzer.registerComponents(componentFiles);
+    analyzer.registerRouteComponents(this.analyzeRoutes(targetPath, options));
+
+    if (logProgress) {
+      console.log(`Found ${componentFiles.length} component files to analyze...`);
+    }
+
+    componentFiles.forEach((filePath, index) => {
+      try {
+        if (logProgress) {
+          console.log(`Analyzing ${index + 1}/${componentFiles.length}: ${filePath}`);
+        }
+        analyses.push(...analyzer.analyzeFile(filePath));
+      } catch (error) {
+        console.error(`Error analyzing ${filePath}:`, error);
+        failedFiles.push(filePath);
+      }
+    });
+
+    return { analyzer, analyses, failedFiles };
+  }
+
+  /**
+   * Findings of a project for a baseline. A file that fails to analyze would
+   * drop its findings from the baseline, so any failure aborts.
+   */
+  private static analyzeForBaseline(targetPath: string, options: AnalysisOptions): ComponentAnalysis[] {
+    const { analyses, failedFiles } = this.analyzeComponentFiles(
+      targetPath,
+      { ...options, baselinePath: undefined },
+      false
+    );
+    if (failedFiles.length > 0) {
+      throw new Error(
+        `${failedFiles.length} files could not be analyzed, so the baseline was not saved: ${failedFiles.join(', ')}`
+      );
+    }
+    return analyses;
+  }
+
+  /**
+   * Records every current finding in a baseline file
+   */
+  public static createBaseline(
+    projectPath: string | undefined,
+    baselinePath: string,
+    options: AnalysisOptions = {}
+  ): Baseline {
+    const targetPath = projectPath || process.cwd();
+    const analyses = this.analyzeForBaseline(targetPath, options);
+    const baseline = Baseline.fromAnalyses(analyses, dirname(resolve(baselinePath)));
+    baseline.save(baselinePath);
+    return baseline;
+  }
+
+  /**
+   * Removes fixed findings from a baseline file. New findings are not added;
+   * recreate the baseline to accept them.
+   */
+  public static updateBaseline(
+    projectPath: string | undefined,
+    baselinePath: string,
+    options: AnalysisOptions = {}
+  ): { baseline: Baseline; fixed: BaselineEntry[]; newIssues: number } {
+    const targetPath = projectPath || process.cwd();
+    const baseline = Baseline.load(baselinePath);
+    const analyses = this.analyzeForBaseline(targetPath, options);
+    const { fixed, newIssues } = baseline.compare(
+      analyses,
+      dirname(resolve(baselinePath)),
+      targetPath
+    );
+
+    const updated = baseline.without(fixed);
+    updated.save(baselinePath);
+    return { baseline: updated, fixed, newIssues };
+  }
+
+  /**
+   * Creates an analyzer, backed by a full ts.Program when a tsconfig is given
+   */
+  public static createAnalyzer(
+    targetPath: string,
+    options: AnalysisOptions = {}
+  ): PerformanceAnalyzer {
+    let analyzer = new PerformanceAnalyzer();
+    if (options.tsconfigPath) {
+      const program = this.createProgram(options.tsconfigPath, targetPath);
+      analyzer = new PerformanceAnalyzer(program.getTypeChecker(), program);
+    }
+
+    if (options.statsPath) {
+      analyzer.setBundleStats(BundleStats.load(options.statsPath));
+    }
+
+    const config = this.loadConfig(targetPath, options);
+    analyzer.setConfig(config);
+
+    const rules = [...config.customRules, ...(options.rules || [])];
+    if (rules.length) {
+      analyzer.registerRules(loadRules(rules));
+    }
+
+    const ruleIds = new Set(analyzer.getRules().map((rule) => rule.id));
+    config.configuredRuleIds
+      .filter((id) => !ruleIds.has(id))
+      .forEach((id) => console.warn(`Unknown rule '${id}' in ${config.filePath}`));
+
+    return analyzer;
+  }
+
+  /**
+   * The config file given in `options`, or the nearest one above the
+   * analyzed path
+   */
+  public static loadConfig(targetPath: string, options: AnalysisOptions = {}): ProjectConfig {
+    return ProjectConfig.load(targetPath, options.configPath);
+  }
+
+  /**
+   * Builds a ts.Program from a tsconfig file. `tsconfigPath` may also be a
+   * directory, in which case the nearest tsconfig.json is used.
+   */
+  public static createProgram(
+    tsconfigPath: string,
+    searchFrom: string = process.cwd()
+  ): ts.Program {
+    const resolvedPath = resolve(tsconfigPath);
+    const configPath =
+      existsSync(resolvedPath) && statSync(resolvedPath).isFile()
+        ? resolvedPath
+        : ts.findConfigFile(
+            existsSync(resolvedPath) ? resolvedPath : searchFrom,
+            ts.sys.fileExists
+          );
+
+    if (!configPath) {
+      throw new Error(`Could not find a tsconfig.json for ${tsconfigPath}`);
+    }
+
+    const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (configFile.error) {
+      throw new Error(
+        ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')
+      );
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(
+      configFile.config,
+      ts.sys,
+      dirname(configPath)
+    );
+
+    console.log(`🧠 Type-aware analysis using ${configPath}`);
+
+    return ts.createProgram({
+      rootNames: parsed.fileNames,
+      options: parsed.options,
+      projectReferences: parsed.projectReferences,
+    });
+  }
+
+  /**
+   * Parses the router configuration and reports eager routes, feature areas
+   * that could be split, a missing preloading strategy and heavy guards
+   */
+  public static analyzeRoutes(
+    projectPath?: string,
+    options: AnalysisOptions = {}
+  ): RouteAnalysis {
+    const targetPath = projectPath || process.cwd();
+    const stats = options.statsPath ? BundleStats.load(options.statsPath) : undefined;
+    return new RouteAnalyzer(undefined, stats).analyze(
+      this.findTypeScriptFiles(targetPath, this.loadConfig(targetPath, options))
+    );
+  }
+
+  /**
+   * Builds the component tree from selector usage across all templates,
+   * with route components as additional entry points
+   */
+  public static buildComponentGraph(
+    projectPath?: string,
+    options: AnalysisOptions = {}
+  ): ComponentGraph {
+    const targetPath = projectPath || process.cwd();
+    const analyzer = this.createAnalyzer(targetPath, options);
+    const componentFiles = this.findComponentFiles(targetPath, analyzer.getConfig());
+    const routeAnalysis = this.analyzeRoutes(targetPath, options);
+    analyzer.registerPipes(componentFiles);
+    analyzer.registerComponents(componentFiles);
+    analyzer.registerRouteComponents(routeAnalysis);
+
+    const analyses: ComponentAnalysis[] = [];
+    componentFiles.forEach((filePath) => {
+      try {
+        analyses.push(...analyzer.analyzeFile(filePath));
+      } catch (error) {
+        console.error(`Error analyzing ${filePath}:`, error);
+      }
+    });
+
+    return new ComponentGraphBuilder().build(
+      analyses.map((analysis) => ({
+        analysis,
+        elements: analyzer.getTemplateElements(analysis),
+      })),
+      routeAnalysis
+    );
+  }
+
+  public static generateComponentGraphReport(graph: ComponentGraph): string {
+    const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+    const children = new Map<string, string[]>();
+    graph.edges.forEach((edge) =>
+      children.set(edge.from, [...(children.get(edge.from) || []), edge.to])
+    );
+
+    let report = '# Angular Component Tree Report\n\n';
+    report += `## 📊 Overview\n`;
+    report += `- **Components**: ${graph.nodes.length}\n`;
+    report += `- **OnPush**: ${graph.nodes.filter((node) => node.changeDetection === 'OnPush').length}\n`;
+    report += `- **Roots**: ${graph.roots.length}\n\n`;
+
+    report += `## 🌳 Component Tree\n\n`;
+    report += '```\n';
+    const printTree = (id: string, indent: string, path: Set<string>) => {
+      const node = byId.get(id)!;
+      const flags = [node.changeDetection, ...(node.routeEntry ? ['route'] : [])];
+      report += `${indent}${node.componentName} [${flags.join(', ')}]${path.has(id) ? ' (cycle)' : ''}\n`;
+      if (path.has(id)) return;
+      (children.get(id) || []).forEach((child) =>
+        printTree(child, indent + '  ', new Set([...path, id]))
+      );
+    };
+    graph.roots.forEach((root) => printTree(root, '', new Set()));
+    report += '```\n\n';
+
+    if (graph.onPushCandidates.length > 0) {
+      report += `## 🎯 OnPush Candidates (by protected descendants)\n`;
+      report += '| Component | Protected Descendants |\n|---|---|\n';
+      graph.onPushCandidates.forEach((candidate) => {
+        report += `| ${candidate.componentName} | ${candidate.protectedDescendants} |\n`;
       });
+      report += '\n';
     }
 
-    // Modern @for syntax
-    const modernForRegex = /@for\s*\(\s*([^;]+);\s*track\s+([^)]+)\)|@for\s*\(\s*([^)]+)\)/g;
-    
-    while ((match = modernForRegex.exec(template)) !== null) {
-      const hasTrackBy = match[2] !== undefined; // Has track expression
-      const loopExpression = match[1] || match[3]; // Get the loop expression
-      const trackExpression = match[2]; // Get tracking expression if present
-      
-      // Analyze the loop expression for smart tracking recommendations
-      const recommendedTracking = this.analyzeForTrackingRecommendation(loopExpression, trackExpression);
-      
-      loops.push({
-        location: {
-          file: this.componentInfo.templatePath || 'inline template',
-          line: this.getLineNumber(template, match.index),
-          column: this.getColumnNumber(template, match.index),
-          snippet: match[0],
-        },
-        hasTrackBy,
-        estimatedSize: this.estimateLoopSize(loopExpression),
-        isModernSyntax: true,
-        recommendedTracking
+    if (graph.findings.length > 0) {
+      report += `## 💡 Tree Findings (${graph.findings.length})\n\n`;
+      graph.findings.forEach((finding) => {
+        report += `- **${finding.type}** (${finding.severity}): ${finding.description}\n`;
+        if (finding.subtree) {
+          report += `  *Subtree*: ${finding.subtree.join(', ')}\n`;
+        }
+        report += `  *Fix*: ${finding.fix}\n`;
+        report += `  *File*: \`${finding.filePath}\`\n`;
       });
     }
 
-    return loops;
+    return report;
   }
 
-  private analyzeForTrackingRecommendation(loopExpression: string, currentTracking?: string): string | undefined {
-    if (currentTracking) {
-      // Already has tracking, check if it could be improved
-      if (currentTracking.includes('$index') && this.hasIdProperty(loopExpression)) {
-        return 'Consider tracking by object id instead of $index for better performance';
-      }
-      return undefined;
-    }
+  /**
+   * Graphviz DOT export; OnPush components are green, Default ones orange,
+   * route entry points have a double border
+   */
+  public static generateComponentGraphDot(graph: ComponentGraph): string {
+    const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+    const lines = [
+      'digraph components {',
+      '  rankdir=TB;',
+      '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    ];
 
-    // No tracking, provide recommendation
-    if (this.hasIdProperty(loopExpression)) {
-      const itemVar = this.extractItemVariable(loopExpression);
-      return `Add tracking: track ${itemVar}.id`;
-    } else {
-      const itemVar = this.extractItemVariable(loopExpression);
-      return `Add tracking: track ${itemVar}`;
-    }
-  }
+    graph.nodes.forEach((node) => {
+      const label = node.selector
+        ? `${node.componentName}\\n<${node.selector}>`
+        : node.componentName;
+      const color = node.changeDetection === 'OnPush' ? '#c8e6c9' : '#ffe0b2';
+      const routeStyle = node.routeEntry ? ', peripheries=2' : '';
+      lines.push(`  ${quote(node.id)} [label=${quote(label)}, fillcolor="${color}"${routeStyle}];`);
+    });
+    graph.edges.forEach((edge) => {
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+    });
 
-  private hasIdProperty(loopExpression: string): boolean {
-    // Simple heuristic: if the array variable contains 'item', 'user', 'product', etc.
-    // and typically has id properties, suggest id tracking
-    const commonIdPatterns = /\b(items?|users?|products?|entities?|records?|data|list|todos?|tasks?|messages?|posts?)\b/i;
-    return commonIdPatterns.test(loopExpression);
+    lines.push('}');
+    return lines.join('\n') + '\n';
   }
 
-  private extractItemVariable(loopExpression: string): string {
-    // Extract item variable from expressions like "let item of items" or "item of collection; let i = $index"
-    const match = loopExpression.match(/let\s+(\w+)\s+of|(\w+)\s+of/);
-    return match ? (match[1] || match[2]) : 'item';
-  }
+  public static generateBundleReport(
+    stats: BundleStats,
+    analyses: ComponentAnalysis[] = [],
+    routeAnalysis?: RouteAnalysis
+  ): string {
+    const summary = stats.getSummary();
+    let report = '# Angular Bundle Attribution Report\n\n';
+
+    report += `## 📦 Bundle Overview (${summary.format} stats)\n`;
+    report += `- **Total JavaScript**: ${formatBytes(summary.totalBytes)}\n`;
+    report += `- **Initial Chunks**: ${formatBytes(summary.initialBytes)}\n`;
+    report += `- **Lazy Chunks**: ${formatBytes(summary.lazyBytes)}\n\n`;
+
+    report += `## 🧱 Chunks\n`;
+    report += '| Chunk | Type | Size |\n|---|---|---|\n';
+    summary.chunks.forEach((chunk) => {
+      report += `| ${chunk.name} | ${chunk.initial ? 'initial' : 'lazy'} | ${formatBytes(chunk.bytes)} |\n`;
+    });
+    report += '\n';
 
-  private findSubscriptionUsagesInTemplate(
-    template: string
-  ): Array<{ location: CodeLocation }> {
-    const usages: Array<{ location: CodeLocation }> = [];
-    const regex = /\{\{\s*(\w+)\s*\}\}/g;
-    let match;
+    if (summary.packages.length > 0) {
+      report += `## 📚 Third-Party Packages\n`;
+      report += '| Package | Initial | Lazy | Total |\n|---|---|---|---|\n';
+      summary.packages.slice(0, 25).forEach((pkg) => {
+        report += `| ${pkg.name} | ${formatBytes(pkg.initialBytes)} | ${formatBytes(pkg.lazyBytes)} | ${formatBytes(pkg.bytes)} |\n`;
+      });
+      report += '\n';
+    }
 
-    while ((match = regex.exec(template)) !== null) {
-      if (this.isSubscriptionVariable(match[1])) {
-        usages.push({
-          location: {
-            file: this.componentInfo.templatePath || 'inline template',
-            line: this.getLineNumber(template, match.index),
-            column: this.getColumnNumber(template, match.index),
-            snippet: match[0],
-          },
+    const measuredComponents = analyses.filter((analysis) => analysis.bundleSize);
+    report += `## 🧩 Components\n`;
+    report += '| Component | Initial | Total | Chunks |\n|---|---|---|---|\n';
+    if (measuredComponents.length > 0) {
+      [...measuredComponents]
+        .sort((a, b) => b.bundleSize!.bytes - a.bundleSize!.bytes)
+        .forEach((analysis) => {
+          const size = analysis.bundleSize!;
+          report += `| ${analysis.componentName} | ${formatBytes(size.initialBytes)} | ${formatBytes(size.bytes)} | ${size.chunks.join(', ')} |\n`;
+        });
+    } else {
+      stats
+        .getSourceFiles()
+        .filter((file) => /\.(component|directive|pipe)\.ts$/.test(file.path))
+        .forEach((file) => {
+          report += `| ${file.path} | ${file.initial ? formatBytes(file.bytes) : '0 B'} | ${formatBytes(file.bytes)} | ${file.chunk} |\n`;
         });
-      }
     }
+    report += '\n';
 
-    return usages;
+    const findings = [
+      ...analyses.flatMap((analysis) => analysis.bundleOptimizations),
+      ...(routeAnalysis?.optimizations || []),
+    ];
+    if (findings.length > 0) {
+      report += `## 💡 Bundle Findings (${findings.length})\n\n`;
+      findings.forEach((finding) => {
+        report += `- **${finding.type}**: ${finding.description}\n`;
+        report += `  *Size*: ${finding.estimatedSizeReduction}\n`;
+        if (finding.location) {
+          report += `  *Location*: \`${finding.location.file}:${finding.location.line}:${finding.location.column}\`\n`;
+        }
+      });
+      report += '\n';
+    }
+
+    return report;
   }
 
-  private findManualSubscriptions(): Array<{
-    location: CodeLocation;
-    variableName: string;
-  }> {
-    const subscriptions: Array<{
-      location: CodeLocation;
-      variableName: string;
-    }> = [];
+  public static generateRulesReport(rules: Rule[]): string {
+    let report = '# Rules\n\n';
+    report += '| Rule | Category | Severity | Description |\n';
+    report += '|------|----------|----------|-------------|\n';
+    rules.forEach((rule) => {
+      const id = rule.docsUrl ? `[${rule.id}](${rule.docsUrl})` : rule.id;
+      const custom = rule.id in BUILT_IN_RULES ? '' : ' (custom)';
+      report += `| ${id}${custom} | ${rule.category} | ${rule.severity} | ${rule.description} |\n`;
+    });
+    return report;
+  }
 
-    const visit = (node: ts.Node) => {
-      if (
-        ts.isCallExpression(node) &&
-        ts.isPropertyAccessExpression(node.expression) &&
-        node.expression.name.text === 'subscribe'
-      ) {
-        const sourceFile = node.getSourceFile();
-        const lineChar = sourceFile.getLineAndCharacterOfPosition(
-          node.getStart()
-        );
+  public static generateZonelessReport(analyses: ComponentAnalysis[]): string {
+    let report = '# Zoneless Readiness Report\n\n';
 
-        subscriptions.push({
-          location: {
-            file: this.componentInfo.filePath,
-            line: lineChar.line + 1,
-            column: lineChar.character + 1,
-            snippet: node.getText(),
-          },
-          variableName: node.expression.expression.getText(),
-        });
-      }
-      ts.forEachChild(node, visit);
-    };
+    if (analyses.length === 0) {
+      report += '⚠️ No components found to analyze.\n\n';
+      return report;
+    }
 
-    visit(this.sourceFile);
-    return subscriptions;
-  }
+    const byVerdict = (verdict: ZonelessVerdict) =>
+      analyses.filter((analysis) => analysis.zoneless.verdict === verdict);
 
-  private findImports(): Array<{ moduleName: string; location: CodeLocation }> {
-    const imports: Array<{ moduleName: string; location: CodeLocation }> = [];
+    const componentsWith = (verdict: ZonelessVerdict) =>
+      byVerdict(verdict).filter((analysis) => analysis.kind === 'component').length;
 
-    const visit = (node: ts.Node) => {
-      if (
-        ts.isImportDeclaration(node) &&
-        node.moduleSpecifier &&
-        ts.isStringLiteral(node.moduleSpecifier)
-      ) {
-        const sourceFile = node.getSourceFile();
-        const lineChar = sourceFile.getLineAndCharacterOfPosition(
-          node.getStart()
-        );
+    report += `## 📊 Overview\n`;
+    report += `- **Readiness**: ${this.getZonelessReadiness(analyses)}%\n`;
+    report += `- **Ready components**: ${componentsWith('ready')}\n`;
+    report += `- **Components needing work**: ${componentsWith('needs-work')}\n`;
+    report += `- **Blocked components**: ${componentsWith('blocked')}\n\n`;
 
-        imports.push({
-          moduleName: node.moduleSpecifier.text,
-          location: {
-            file: this.componentInfo.filePath,
-            line: lineChar.line + 1,
-            column: lineChar.character + 1,
-            snippet: node.getText(),
-          },
+    const blockerCounts: Record<string, number> = {};
+    analyses.forEach((analysis) =>
+      analysis.zoneless.blockers.forEach((blocker) => {
+        blockerCounts[blocker.type] = (blockerCounts[blocker.type] || 0) + 1;
+      })
+    );
+    if (Object.keys(blockerCounts).length > 0) {
+      report += `## 🚧 Blockers by Type\n`;
+      Object.entries(blockerCounts)
+        .sort(([, a], [, b]) => b - a)
+        .forEach(([type, count]) => {
+          report += `- **${type}**: ${count}\n`;
         });
-      }
-      ts.forEachChild(node, visit);
-    };
-
-    visit(this.sourceFile);
-    return imports;
-  }
-
-  private estimateLoopSize(ngForExpression: string): number | undefined {
-    // This is a simplified estimation - in real implementation, you'd analyze the component
-    // to understand the data source size
-    if (
-      ngForExpression.includes('users') ||
-      ngForExpression.includes('items')
-    ) {
-      return 50; // Estimated average
+      report += '\n';
     }
-    return undefined;
-  }
 
-  private isSubscriptionVariable(variableName: string): boolean {
-    // Check if variable name suggests it's from a subscription
-    return (
-      variableName.includes('$') ||
-      variableName.includes('subscription') ||
-      variableName.includes('observable') ||
-      variableName.includes('stream')
+    report += `## 📋 Components\n\n`;
+    [...byVerdict('blocked'), ...byVerdict('needs-work'), ...byVerdict('ready')].forEach(
+      (analysis) => {
+        const emoji =
+          analysis.zoneless.verdict === 'ready'
+            ? '🟢'
+            : analysis.zoneless.verdict === 'needs-work'
+            ? '🟡'
+            : '🔴';
+        report += `### ${emoji} ${analysis.componentName} (${analysis.zoneless.verdict})\n`;
+        report += `**File**: \`${analysis.filePath}\`\n\n`;
+        analysis.zoneless.blockers.forEach((blocker) => {
+          report += `- **${blocker.type}** (${blocker.severity}): ${blocker.description}\n`;
+          report += `  *Location*: \`${blocker.location.file}:${blocker.location.line}:${blocker.location.column}\`\n`;
+          report += `  *Fix*: ${blocker.fix}\n`;
+        });
+        if (analysis.zoneless.blockers.length > 0) {
+          report += '\n';
+        }
+      }
     );
-  }
 
-  private isLargeLibrary(moduleName: string): boolean {
-    const largeLibraries = ['lodash', 'moment', 'rxjs', '@angular/material'];
-    return largeLibraries.some((lib) => moduleName.includes(lib));
+    return report;
   }
 
-  private getLineNumber(text: string, index: number): number {
-    return text.substring(0, index).split('\n').length;
-  }
+  public static generateRouteReport(routeAnalysis: RouteAnalysis): string {
+    let report = '# Angular Route Analysis Report\n\n';
 
-  private getColumnNumber(text: string, index: number): number {
-    const lines = text.substring(0, index).split('\n');
-    return lines[lines.length - 1].length + 1;
-  }
-}
+    if (routeAnalysis.routes.length === 0) {
+      report += '⚠️ No route configuration found.\n\n';
+      return report;
+    }
 
-// Usage example and CLI integration helper
-export class PerformanceAnalyzerCLI {
-  public static analyzeProject(projectPath?: string): ComponentAnalysis[] {
-    const analyzer = new PerformanceAnalyzer();
-    const results: ComponentAnalysis[] = [];
+    const allRoutes: RouteNode[] = [];
+    const collect = (routes: RouteNode[]) =>
+      routes.forEach((route) => {
+        allRoutes.push(route);
+        collect(route.children);
+      });
+    collect(routeAnalysis.routes);
+
+    report += `## 📊 Route Overview\n`;
+    report += `- **Routes**: ${allRoutes.length}\n`;
+    report += `- **Eager**: ${allRoutes.filter((r) => r.loading === 'eager' && r.inInitialBundle).length}\n`;
+    report += `- **Lazy**: ${allRoutes.filter((r) => r.loading === 'lazy').length}\n`;
+    report += `- **Preloading Strategy**: ${routeAnalysis.hasPreloadingStrategy ? 'configured' : 'none'}\n\n`;
+
+    report += `## 🌳 Route Tree\n\n`;
+    report += '```\n';
+    const printTree = (routes: RouteNode[], indent: string) =>
+      routes.forEach((route) => {
+        const status =
+          route.loading === 'lazy'
+            ? `lazy → ${route.loadTarget}`
+            : route.loading === 'eager'
+            ? `${route.inInitialBundle ? 'eager' : 'lazy chunk'} ${route.component}`
+            : route.loading;
+        report += `${indent}${route.fullPath} [${status}]\n`;
+        printTree(route.children, indent + '  ');
+      });
+    printTree(routeAnalysis.routes, '');
+    report += '```\n\n';
+
+    if (routeAnalysis.optimizations.length > 0) {
+      report += `## 💡 Route Optimizations (${routeAnalysis.optimizations.length})\n\n`;
+      routeAnalysis.optimizations.forEach((optimization) => {
+        report += `- **${optimization.type}**: ${optimization.description}\n`;
+        if (optimization.location) {
+          report += `  *Location*: \`${optimization.location.file}:${optimization.location.line}:${optimization.location.column}\`\n`;
+        }
+        report += `  *Fix*: ${optimization.implementation}\n`;
+      });
+      report += '\n';
+    }
 
-    // Use current working directory if no path provided
+    return report;
+  }
+
+  /**
+   * Rewrites *ngIf, *ngFor and [ngSwitch] to built-in control flow blocks.
+   * Files are only changed with `write`; the diffs are returned either way.
+   */
+  public static migrateControlFlow(
+    projectPath?: string,
+    options: AnalysisOptions & { write?: boolean } = {}
+  ): ControlFlowMigrationResult {
     const targetPath = projectPath || process.cwd();
-    
-    // In real implementation, you'd recursively find all component files
-    // This is a simplified example
-    const componentFiles = this.findComponentFiles(targetPath);
+    const analyzer = new PerformanceAnalyzer();
+    const migrator = new ControlFlowMigrator();
+    const result: ControlFlowMigrationResult = { files: [], migrated: 0, skipped: [] };
 
-    componentFiles.forEach((filePath) => {
+    // Group by file: several components can share a file, and a templateUrl
+    // can be shared by several components
+    const sourcesByFile = new Map<string, Map<number, TemplateSource>>();
+    this.findComponentFiles(targetPath, this.loadConfig(targetPath, options)).forEach((componentFile) => {
       try {
-        const analysis = analyzer.analyzeComponent(filePath);
-        results.push(analysis);
+        analyzer.getTemplateSources(componentFile).forEach((source) => {
+          const sources = sourcesByFile.get(source.filePath) || new Map<number, TemplateSource>();
+          sources.set(source.offset, source);
+          sourcesByFile.set(source.filePath, sources);
+        });
       } catch (error) {
-        console.error(`Error analyzing ${filePath}:`, error);
+        console.warn(
+          `Could not read component file ${componentFile}:`,
+          error instanceof Error ? error.message : error
+        );
       }
     });
 
-    return results;
+    sourcesByFile.forEach((sources, filePath) => {
+      const before = readFileSync(filePath, 'utf8');
+      let after = before;
+      let migrated = 0;
+
+      // Apply from the end so earlier offsets stay valid
+      Array.from(sources.values())
+        .sort((a, b) => b.offset - a.offset)
+        .forEach((source) => {
+          const migration = migrator.migrate(source.template);
+          migration.skipped.forEach(({ span, reason }) => {
+            const lines = before.substring(0, source.offset + span.start).split('\n');
+            result.skipped.push({
+              filePath,
+              line: lines.length,
+              column: lines[lines.length - 1].length + 1,
+              reason,
+            });
+          });
+          if (migration.migrated === 0) return;
+
+          migrated += migration.migrated;
+          after =
+            after.slice(0, source.offset) +
+            migration.template +
+            after.slice(source.offset + source.template.length);
+        });
+
+      if (after === before) return;
+      if (options.write) {
+        writeFileSync(filePath, after);
+      }
+      result.files.push({
+        filePath,
+        migrated,
+        diff: createUnifiedDiff(relative(targetPath, filePath) || filePath, before, after),
+      });
+      result.migrated += migrated;
+    });
+
+    return result;
   }
 
-  public static analyzeProjectWithSummary(projectPath?: string): {
-    analyses: ComponentAnalysis[];
-    summary: ProjectSummary;
-  } {
-    const analyzer = new PerformanceAnalyzer();
-    const results: ComponentAnalysis[] = [];
-    
-    // Use current working directory if no path provided
+  /**
+   * Applies the autofixes attached to findings. Files are only changed with
+   * `write`; the diffs are returned either way.
+   */
+  public static fixProject(
+    projectPath?: string,
+    options: AnalysisOptions & { write?: boolean } = {}
+  ): AutofixResult {
     const targetPath = projectPath || process.cwd();
-    
-    const componentFiles = this.findComponentFiles(targetPath);
-
-    console.log(`Found ${componentFiles.length} component files to analyze...`);
+    const findings = new Map<Autofix, { type: string; location: CodeLocation }>();
+    this.analyzeProject(targetPath, options).forEach((analysis) => {
+      [
+        ...analysis.changeDetectionIssues,
+        ...analysis.templateIssues,
+        ...analysis.subscriptionIssues,
+      ].forEach((issue) => {
+        if (issue.autofix) findings.set(issue.autofix, issue);
+      });
+    });
 
-    let successCount = 0;
-    let errorCount = 0;
+    const plan = planAutofixes(Array.from(findings.keys()));
+    const describe = (fix: Autofix) => {
+      const { type, location } = findings.get(fix)!;
+      return { type, location, description: fix.description };
+    };
 
-    componentFiles.forEach((filePath, index) => {
-      try {
-        console.log(
-          `Analyzing ${index + 1}/${componentFiles.length}: ${filePath}`
-        );
-        const analysis = analyzer.analyzeComponent(filePath);
-        results.push(analysis);
-        successCount++;
-      } catch (error) {
-        console.error(`Error analyzing ${filePath}:`, error);
-        errorCount++;
+    const files: AutofixResult['files'] = [];
+    plan.editsByFile.forEach((edits, filePath) => {
+      const before = readFileSync(filePath, 'utf8');
+      const after = applyTextEdits(before, edits);
+      if (options.write) {
+        writeFileSync(filePath, after);
       }
+      files.push({
+        filePath,
+        diff: createUnifiedDiff(relative(targetPath, filePath) || filePath, before, after),
+      });
     });
 
-    const summary = this.generateProjectSummary(
-      results,
-      successCount,
-      errorCount
-    );
-
     return {
-      analyses: results,
-      summary,
+      files,
+      applied: plan.applied.map(describe),
+      conflicts: plan.conflicts.map(describe),
     };
   }
 
   private static generateProjectSummary(
     analyses: ComponentAnalysis[],
-    successCount: number,
-    errorCount: number
+    errorCount: number,
+    unusedDisables?: UnusedSuppression[]
   ): ProjectSummary {
     const totalIssues = analyses.reduce((sum, analysis) => {
       return (
         sum +
         analysis.changeDetectionIssues.length +
         analysis.templateIssues.length +
-        analysis.subscriptionIssues.length
+        analysis.subscriptionIssues.length +
+        analysis.signalIssues.length +
+        analysis.zoneIssues.length
       );
     }, 0);
 
@@ -972,29 +4652,31 @@ export class PerformanceAnalyzerCLI {
           ) / analyses.length
         : 0;
 
-    const issuesByType = {
+    const issuesByType: Record<string, number> = {
       'missing-onpush': 0,
       'function-in-template': 0,
       'missing-trackby': 0,
       'manual-subscription': 0,
+      'memory-leak': 0,
       'async-pipe-opportunity': 0,
       'large-ngfor': 0,
     };
 
     analyses.forEach((analysis) => {
-      analysis.changeDetectionIssues.forEach((issue) => {
-        issuesByType[issue.type as keyof typeof issuesByType]++;
-      });
-      analysis.templateIssues.forEach((issue) => {
-        issuesByType[issue.type as keyof typeof issuesByType]++;
-      });
-      analysis.subscriptionIssues.forEach((issue) => {
-        issuesByType[issue.type as keyof typeof issuesByType]++;
+      [
+        ...analysis.changeDetectionIssues,
+        ...analysis.templateIssues,
+        ...analysis.subscriptionIssues,
+        ...analysis.signalIssues,
+        ...analysis.zoneIssues,
+      ].forEach((issue) => {
+        issuesByType[issue.type] = (issuesByType[issue.type] || 0) + 1;
       });
     });
 
     return {
-      totalComponents: successCount,
+      // Files may declare several classes, and pipes or directives too
+      totalComponents: analyses.filter((analysis) => analysis.kind === 'component').length,
       totalIssues,
       averagePerformanceScore: Math.round(averageScore * 100) / 100,
       analysisErrors: errorCount,
@@ -1003,10 +4685,45 @@ export class PerformanceAnalyzerCLI {
         .sort(([, a], [, b]) => b - a)
         .slice(0, 3)
         .map(([type, count]) => ({ type, count })),
+      zonelessReadiness: this.getZonelessReadiness(analyses),
+      suppressedIssues: analyses.reduce((sum, analysis) => sum + analysis.suppressedIssues.length, 0),
+      unusedDisables,
     };
   }
 
-  private static findComponentFiles(projectPath: string): string[] {
+  /**
+   * Share of components that are ready. Pipes and directives have no change
+   * detection strategy of their own, so they would inflate the figure.
+   */
+  private static getZonelessReadiness(analyses: ComponentAnalysis[]): number {
+    const components = analyses.filter((analysis) => analysis.kind === 'component');
+    if (components.length === 0) return 0;
+    const ready = components.filter((analysis) => analysis.zoneless.verdict === 'ready').length;
+    return Math.round((ready / components.length) * 10000) / 100;
+  }
+
+  private static findComponentFiles(projectPath: string, config: ProjectConfig): string[] {
+    return this.findFiles(projectPath, config, (filePath) =>
+      this.isComponentFile(filePath)
+    );
+  }
+
+  private static findTypeScriptFiles(projectPath: string, config: ProjectConfig): string[] {
+    return this.findFiles(
+      projectPath,
+      config,
+      (filePath) =>
+        filePath.endsWith('.ts') &&
+        !filePath.endsWith('.d.ts') &&
+        !filePath.endsWith('.spec.ts')
+    );
+  }
+
+  private static findFiles(
+    projectPath: string,
+    config: ProjectConfig,
+    predicate: (filePath: string) => boolean
+  ): string[] {
     const componentFiles: string[] = [];
 
     const traverseDirectory = (dirPath: string) => {
@@ -1020,13 +4737,16 @@ export class PerformanceAnalyzerCLI {
             const stats = statSync(fullPath);
 
             if (stats.isDirectory()) {
-              // Skip node_modules, dist, and other build directories
-              if (!this.shouldSkipDirectory(item)) {
+              // Skip node_modules, dist, and other excluded directories
+              if (!config.isExcluded(fullPath, true)) {
                 traverseDirectory(fullPath);
               }
             } else if (stats.isFile()) {
-              // Check if it's a component file
-              if (this.isComponentFile(fullPath)) {
+              if (
+                !config.isExcluded(fullPath, false) &&
+                config.isIncluded(fullPath) &&
+                predicate(fullPath)
+              ) {
                 componentFiles.push(fullPath);
               }
             }
@@ -1050,39 +4770,24 @@ export class PerformanceAnalyzerCLI {
     return componentFiles;
   }
 
-  private static shouldSkipDirectory(dirName: string): boolean {
-    const skipDirs = [
-      'node_modules',
-      'dist',
-      'build',
-      '.git',
-      '.angular',
-      'coverage',
-      'e2e',
-      '.vscode',
-      '.idea',
-      'tmp',
-      'temp',
-    ];
-
-    return skipDirs.includes(dirName) || dirName.startsWith('.');
-  }
-
   private static isComponentFile(filePath: string): boolean {
-    // Check if the file has .component.ts extension
-    if (!filePath.endsWith('.component.ts')) {
+    // Any TypeScript source may hold Angular classes; file names don't matter
+    if (
+      !filePath.endsWith('.ts') ||
+      filePath.endsWith('.d.ts') ||
+      filePath.endsWith('.spec.ts')
+    ) {
       return false;
     }
 
-    // Additional validation: check if the file actually contains a @Component decorator
+    // Cheap pre-check; analyzeFile confirms the decorators on the AST
     try {
       const content = readFileSync(filePath, 'utf8');
 
-      // Simple check for @Component decorator
-      const hasComponentDecorator = content.includes('@Component');
-      const hasClassDeclaration = /class\s+\w+.*Component/i.test(content);
+      const hasDecorator = /@(?:Component|Directive|Pipe)\s*\(/.test(content);
+      const hasClassDeclaration = /class\s+\w+/.test(content);
 
-      return hasComponentDecorator && hasClassDeclaration;
+      return hasDecorator && hasClassDeclaration;
     } catch (error) {
       console.warn(
         `Could not validate component file ${filePath}:`,
@@ -1106,7 +4811,9 @@ export class PerformanceAnalyzerCLI {
         sum +
         analysis.changeDetectionIssues.length +
         analysis.templateIssues.length +
-        analysis.subscriptionIssues.length
+        analysis.subscriptionIssues.length +
+        analysis.signalIssues.length +
+        analysis.zoneIssues.length
       );
     }, 0);
 
@@ -1119,7 +4826,8 @@ export class PerformanceAnalyzerCLI {
     report += `- **Average Performance Score**: ${
       Math.round(averageScore * 100) / 100
     }/100\n`;
-    report += `- **Total Issues Found**: ${totalIssues}\n\n`;
+    report += `- **Total Issues Found**: ${totalIssues}\n`;
+    report += `- **Zoneless Readiness**: ${this.getZonelessReadiness(analyses)}%\n\n`;
 
     // Performance distribution
     const scoreRanges = {
@@ -1159,14 +4867,22 @@ export class PerformanceAnalyzerCLI {
     report += `## 📋 Detailed Component Analysis\n\n`;
 
     analyses.forEach((analysis) => {
-      report += `### ${analysis.componentName}\n`;
+      report += `### ${analysis.componentName}${
+        analysis.kind !== 'component' ? ` (${analysis.kind})` : ''
+      }\n`;
       report += `**File**: \`${analysis.filePath}\`  \n`;
       report += `**Performance Score**: ${analysis.performanceScore}/100\n\n`;
 
+      // Image and media findings get their own section
+      const mediaIssues = analysis.templateIssues.filter(
+        (issue) => issue.category === 'media'
+      );
       const allIssues = [
         ...analysis.changeDetectionIssues,
-        ...analysis.templateIssues,
+        ...analysis.templateIssues.filter((issue) => issue.category !== 'media'),
         ...analysis.subscriptionIssues,
+        ...analysis.signalIssues,
+        ...analysis.zoneIssues,
       ];
 
       if (allIssues.length > 0) {
@@ -1186,12 +4902,35 @@ export class PerformanceAnalyzerCLI {
             group.issues.forEach((issue) => {
               report += `${group.emoji} **${issue.type}** (${issue.severity})\n`;
               report += `   ${issue.description}\n`;
-              report += `   *Fix*: ${issue.fix}\n\n`;
+              const autofix = 'autofix' in issue && issue.autofix ? ' (🔧 autofix: `ngperf fix`)' : '';
+              report += `   *Fix*: ${issue.fix}${autofix}\n\n`;
             });
           }
         });
       }
 
+      if (mediaIssues.length > 0) {
+        report += `#### 🖼️ Images and Media (${mediaIssues.length})\n`;
+        mediaIssues.forEach((issue) => {
+          report += `- **${issue.type}** (${issue.severity}) at line ${issue.location.line}: ${issue.description}\n`;
+          report += `  *Fix*: ${issue.fix}\n`;
+        });
+        report += '\n';
+      }
+
+      if (analysis.bundleSize || analysis.bundleOptimizations.length > 0) {
+        report += '#### 📦 Bundle\n';
+        if (analysis.bundleSize) {
+          report += `- Measured size: ${formatBytes(analysis.bundleSize.bytes)} (${formatBytes(
+            analysis.bundleSize.initialBytes
+          )} initial)\n`;
+        }
+        analysis.bundleOptimizations.forEach((optimization) => {
+          report += `- ${optimization.description} (${optimization.estimatedSizeReduction})\n`;
+        });
+        report += '\n';
+      }
+
       if (analysis.recommendations.length > 0) {
         report += '#### 💡 Recommendations\n';
         analysis.recommendations.forEach((rec) => {
@@ -1223,6 +4962,7 @@ export class PerformanceAnalyzerCLI {
     report += `## 📈 Analysis Summary\n\n`;
     report += `- **Components Processed**: ${summary.totalComponents}\n`;
     report += `- **Analysis Errors**: ${summary.analysisErrors}\n`;
+    report += `- **Suppressed Issues**: ${summary.suppressedIssues}\n`;
     report += `- **Average Score**: ${summary.averagePerformanceScore}/100\n\n`;
 
     if (summary.topIssues.length > 0) {
@@ -1234,6 +4974,27 @@ export class PerformanceAnalyzerCLI {
       });
     }
 
+    if (summary.baseline) {
+      const { file, newIssues, baselinedIssues, fixed } = summary.baseline;
+      report += `\n### Baseline\n`;
+      report += `- **Baseline**: \`${file}\`\n`;
+      report += `- **New Issues**: ${newIssues}\n`;
+      report += `- **Baselined Issues**: ${baselinedIssues}\n`;
+      report += `- **Fixed Issues**: ${fixed.length}${
+        fixed.length > 0 ? ' (run `ngperf baseline update` to remove them)' : ''
+      }\n`;
+      fixed.forEach((entry) => {
+        report += `  - \`${entry.file}\` ${entry.symbol}: **${entry.type}** ${entry.description}\n`;
+      });
+    }
+
+    if (summary.unusedDisables?.length) {
+      report += `\n### Unused Suppressions\n`;
+      summary.unusedDisables.forEach((unused) => {
+        report += `- \`${unused.file}:${unused.line}\`: ${unused.rules.join(', ')} (${unused.reason})\n`;
+      });
+    }
+
     return report;
   }
 
@@ -1253,21 +5014,46 @@ export class PerformanceAnalyzerCLI {
 
   public static runAnalysis(
     projectPath?: string,
-    outputPath?: string
+    outputPath?: string,
+    options: AnalysisOptions = {}
   ): ComponentAnalysis[] {
+    return this.runAnalysisWithSummary(projectPath, outputPath, options).analyses;
+  }
+
+  public static runAnalysisWithSummary(
+    projectPath?: string,
+    outputPath?: string,
+    options: AnalysisOptions = {}
+  ): {
+    analyses: ComponentAnalysis[];
+    summary: ProjectSummary;
+  } {
     // Use current working directory if no path provided
     const targetPath = projectPath || process.cwd();
     
     console.log(`🔍 Starting performance analysis for: ${targetPath}`);
 
     const startTime = Date.now();
-    const { analyses, summary } = this.analyzeProjectWithSummary(targetPath);
+    const { analyses, summary } = this.analyzeProjectWithSummary(
+      targetPath,
+      options
+    );
     const endTime = Date.now();
 
     console.log(`\n✅ Analysis completed in ${endTime - startTime}ms`);
     console.log(
-      `📊 Results: ${summary.totalComponents} components, ${summary.totalIssues} issues found`
+      `📊 Results: ${summary.totalComponents} components, ${summary.totalIssues} issues found, ${summary.suppressedIssues} suppressed`
     );
+    if (summary.baseline) {
+      console.log(
+        `📏 Baseline: ${summary.baseline.newIssues} new, ${summary.baseline.baselinedIssues} baselined, ${summary.baseline.fixed.length} fixed`
+      );
+    }
+    summary.unusedDisables?.forEach((unused) => {
+      console.warn(
+        `⚠️  Unused suppression at ${unused.file}:${unused.line}:${unused.column}: ${unused.rules.join(', ')}`
+      );
+    });
 
     const report = this.generateReportWithSummary(analyses, summary);
 
@@ -1277,6 +5063,6 @@ export class PerformanceAnalyzerCLI {
       console.log('\n' + report);
     }
 
-    return analyses;
+    return { analyses, summary };
   }
 }
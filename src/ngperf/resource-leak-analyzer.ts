@@ -0,0 +1,255 @@
+import * as ts from 'typescript';
+import type { CodeLocation, SubscriptionIssue } from './performance-analyzer';
+
+/**
+ * Resource leak analyzer
+ *
+ * Pairs resources a component acquires (global event listeners, intervals,
+ * Renderer2 listeners, DOM observers) with their release in the teardown
+ * code (`ngOnDestroy` and `DestroyRef.onDestroy` callbacks). Acquisitions
+ * without a matching release are reported as memory leaks.
+ */
+
+const OBSERVER_TYPES = ['ResizeObserver', 'IntersectionObserver', 'MutationObserver', 'PerformanceObserver'];
+
+// High-frequency global events that keep firing for the component's lifetime
+const HOT_GLOBAL_EVENTS = ['scroll', 'mousemove', 'pointermove', 'touchmove', 'wheel', 'resize', 'drag', 'dragover'];
+
+const GLOBAL_TARGET = /^(?:this\.)?_?(?:window|document|doc|globalThis|self)(?:\.(?:body|documentElement))?$/;
+const GLOBAL_RENDERER_TARGETS = ['window', 'document', 'body'];
+
+export class ResourceLeakAnalyzer {
+  private teardown = '';
+
+  constructor(private getLocation: (node: ts.Node) => CodeLocation) {}
+
+  /**
+   * @param teardown Teardown code with whitespace removed, as collected by the
+   *   performance analyzer
+   */
+  public analyze(componentClass: ts.ClassDeclaration, teardown: string): SubscriptionIssue[] {
+    this.teardown = normalize(teardown);
+    const issues: SubscriptionIssue[] = [];
+
+    const visit = (node: ts.Node) => {
+      // Releasing resources inside teardown is never an acquisition
+      if (
+        ts.isMethodDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === 'ngOnDestroy'
+      ) {
+        return;
+      }
+
+      const issue = ts.isCallExpression(node)
+        ? this.checkAddEventListener(node) || this.checkInterval(node) || this.checkRendererListen(node)
+        : ts.isNewExpression(node)
+        ? this.checkObserver(node)
+        : undefined;
+      if (issue) {
+        issues.push(issue);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(componentClass);
+
+    issues.push(...this.checkHostListeners(componentClass));
+    return issues;
+  }
+
+  private checkAddEventListener(call: ts.CallExpression): SubscriptionIssue | undefined {
+    if (
+      !ts.isPropertyAccessExpression(call.expression) ||
+      call.expression.name.text !== 'addEventListener' ||
+      call.arguments.length < 2
+    ) {
+      return undefined;
+    }
+
+    const target = call.expression.expression.getText();
+    if (!GLOBAL_TARGET.test(normalize(target))) return undefined;
+
+    const [type, handler, options] = call.arguments;
+    if (options && ts.isObjectLiteralExpression(options)) {
+      if (/once\s*:\s*true/.test(options.getText())) return undefined;
+      const signal = options.properties.find(
+        (prop): prop is ts.PropertyAssignment =>
+          ts.isPropertyAssignment(prop) && prop.name.getText() === 'signal'
+      );
+      const controller = signal && normalize(signal.initializer.getText()).replace(/\.signal$/, '');
+      if (controller && this.teardown.includes(`${controller}.abort(`)) return undefined;
+    }
+
+    const inlineHandler =
+      ts.isArrowFunction(handler) ||
+      ts.isFunctionExpression(handler) ||
+      /\.bind\(/.test(handler.getText());
+    const removal = `.removeEventListener(${normalize(type.getText())},${normalize(handler.getText())}`;
+    if (!inlineHandler && this.teardown.includes(removal)) return undefined;
+
+    return {
+      type: 'memory-leak',
+      severity: 'high',
+      location: this.getLocation(call),
+      description: inlineHandler
+        ? `Global '${this.getEventName(type)}' listener on ${target} uses an inline handler that can never be removed`
+        : `Global '${this.getEventName(type)}' listener on ${target} is never removed`,
+      fix: inlineHandler
+        ? 'Store the handler in a property and call removeEventListener in ngOnDestroy, or pass { signal } from an AbortController aborted on destroy'
+        : `Call ${target}.removeEventListener(${type.getText()}, ${handler.getText()}) in ngOnDestroy`,
+    };
+  }
+
+  private checkInterval(call: ts.CallExpression): SubscriptionIssue | undefined {
+    const callee = normalize(call.expression.getText());
+    if (callee !== 'setInterval' && !/^(?:window|globalThis|self)\.setInterval$/.test(callee)) {
+      return undefined;
+    }
+
+    const handle = this.getHandle(call);
+    if (handle && this.teardown.includes(`clearInterval(${handle})`)) return undefined;
+
+    return {
+      type: 'memory-leak',
+      severity: 'high',
+      location: this.getLocation(call),
+      description: handle
+        ? `Interval stored in ${handle} is never cleared`
+        : 'setInterval handle is discarded, so the interval can never be cleared',
+      fix: handle
+        ? `Call clearInterval(${handle}) in ngOnDestroy`
+        : 'Store the handle and call clearInterval in ngOnDestroy, or use interval() with takeUntilDestroyed()',
+    };
+  }
+
+  private checkRendererListen(call: ts.CallExpression): SubscriptionIssue | undefined {
+    if (
+      !ts.isPropertyAccessExpression(call.expression) ||
+      call.expression.name.text !== 'listen' ||
+      !/renderer/i.test(call.expression.expression.getText()) ||
+      call.arguments.length < 3
+    ) {
+      return undefined;
+    }
+
+    // Listeners on the component's own elements go away with the elements
+    const target = call.arguments[0];
+    const isGlobal = ts.isStringLiteralLike(target)
+      ? GLOBAL_RENDERER_TARGETS.includes(target.text)
+      : GLOBAL_TARGET.test(normalize(target.getText()));
+    if (!isGlobal) return undefined;
+
+    const handle = this.getHandle(call);
+    if (
+      handle &&
+      (this.teardown.includes(`${handle}(`) || this.teardown.includes(`${handle}?.(`))
+    ) {
+      return undefined;
+    }
+
+    return {
+      type: 'memory-leak',
+      severity: 'high',
+      location: this.getLocation(call),
+      description: handle
+        ? `Renderer2 listener stored in ${handle} is never called to unlisten`
+        : 'Renderer2.listen return value is discarded, so the global listener is never removed',
+      fix: handle
+        ? `Call ${handle}() in ngOnDestroy`
+        : 'Store the returned unlisten function and call it in ngOnDestroy',
+    };
+  }
+
+  private checkObserver(expression: ts.NewExpression): SubscriptionIssue | undefined {
+    const type = expression.expression.getText();
+    if (!OBSERVER_TYPES.includes(type)) return undefined;
+
+    const handle = this.getHandle(expression);
+    if (
+      handle &&
+      (this.teardown.includes(`${handle}.disconnect(`) ||
+        this.teardown.includes(`${handle}?.disconnect(`))
+    ) {
+      return undefined;
+    }
+
+    return {
+      type: 'memory-leak',
+      severity: 'high',
+      location: this.getLocation(expression),
+      description: handle
+        ? `${type} stored in ${handle} is never disconnected`
+        : `${type} is not stored, so it can never be disconnected`,
+      fix: handle
+        ? `Call ${handle}.disconnect() in ngOnDestroy`
+        : `Store the ${type} and call disconnect() in ngOnDestroy`,
+    };
+  }
+
+  /**
+   * `@HostListener('window:scroll')` and similar: Angular removes them on
+   * destroy, but they keep global event delivery alive for the component's
+   * whole lifetime, which leaks work for long-lived components
+   */
+  private checkHostListeners(componentClass: ts.ClassDeclaration): SubscriptionIssue[] {
+    const issues: SubscriptionIssue[] = [];
+
+    componentClass.members.forEach((member) => {
+      const decorators = ts.canHaveDecorators(member) ? ts.getDecorators(member) || [] : [];
+      decorators.forEach((decorator) => {
+        if (
+          !ts.isCallExpression(decorator.expression) ||
+          decorator.expression.expression.getText() !== 'HostListener'
+        ) {
+          return;
+        }
+        const event = decorator.expression.arguments[0];
+        const match =
+          event && ts.isStringLiteralLike(event) && /^(window|document|body):(\w+)$/.exec(event.text);
+        if (!match || !HOT_GLOBAL_EVENTS.includes(match[2])) return;
+
+        issues.push({
+          type: 'memory-leak',
+          severity: 'low',
+          location: this.getLocation(decorator),
+          description: `@HostListener('${match[0]}') keeps a global ${match[2]} listener (and a change detection pass per event) alive for the component's lifetime`,
+          fix: `Listen with fromEvent(${match[1]}, '${match[2]}') outside the Angular zone and stop with takeUntilDestroyed()`,
+        });
+      });
+    });
+
+    return issues;
+  }
+
+  /** Where the result of an acquisition is stored, normalized */
+  private getHandle(node: ts.Expression): string | undefined {
+    let current: ts.Node = node;
+    while (ts.isParenthesizedExpression(current.parent) || ts.isAsExpression(current.parent)) {
+      current = current.parent;
+    }
+
+    const parent = current.parent;
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      parent.right === current
+    ) {
+      return normalize(parent.left.getText());
+    }
+    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    if (ts.isPropertyDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return `this.${parent.name.text}`;
+    }
+    return undefined;
+  }
+
+  private getEventName(type: ts.Expression): string {
+    return ts.isStringLiteralLike(type) ? type.text : type.getText();
+  }
+}
+
+function normalize(code: string): string {
+  return code.replace(/\s+/g, '').replace(/["`]/g, "'");
+}
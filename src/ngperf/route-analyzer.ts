@@ -0,0 +1,514 @@
+import * as ts from 'typescript';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { BundleOptimization, CodeLocation } from './performance-analyzer';
+import { BundleStats, formatBytes } from './bundle-stats';
+
+/**
+ * Route configuration analyzer
+ *
+ * Parses `Routes` arrays, `provideRouter`, `RouterModule.forRoot/forChild`
+ * and `loadComponent`/`loadChildren`, follows lazy boundaries into the files
+ * they import, and reports routes that keep code in the initial bundle.
+ */
+
+export interface RouteNode {
+  path: string;
+  fullPath: string;
+  loading: 'eager' | 'lazy' | 'redirect' | 'none';
+  /** True when the route's component ships in the initial bundle */
+  inInitialBundle: boolean;
+  component?: string;
+  /** Module specifier of `loadComponent`/`loadChildren` */
+  loadTarget?: string;
+  guards: string[];
+  resolvers: string[];
+  children: RouteNode[];
+  location: CodeLocation;
+}
+
+export interface RouteAnalysis {
+  routes: RouteNode[];
+  optimizations: BundleOptimization[];
+  hasPreloadingStrategy: boolean;
+  routeFiles: string[];
+}
+
+interface RoutesDeclaration {
+  name?: string;
+  filePath: string;
+  sourceFile: ts.SourceFile;
+  array: ts.ArrayLiteralExpression;
+  isRoot: boolean;
+}
+
+export const DEFAULT_HEAVY_LIBRARIES = [
+  'lodash',
+  'moment',
+  '@angular/material',
+  'chart.js',
+  'highcharts',
+  'echarts',
+  'xlsx',
+  'pdfmake',
+  'jspdf',
+  'd3',
+  'leaflet',
+  'monaco-editor',
+];
+
+const GUARD_PROPERTIES = ['canActivate', 'canActivateChild', 'canMatch', 'canLoad', 'canDeactivate'];
+
+export class RouteAnalyzer {
+  private declarations: RoutesDeclaration[] = [];
+  private sourceFiles = new Map<string, ts.SourceFile>();
+  private optimizations: BundleOptimization[] = [];
+  private hasPreloadingStrategy = false;
+  private hasLazyRoutes = false;
+  private preloadingLocation?: CodeLocation;
+  // Files loaded through loadChildren, whose routes live in lazy chunks
+  private lazyTargets = new Set<string>();
+
+  constructor(
+    private heavyLibraries: string[] = DEFAULT_HEAVY_LIBRARIES,
+    private bundleStats?: BundleStats
+  ) {}
+
+  public analyze(filePaths: string[]): RouteAnalysis {
+    this.declarations = [];
+    this.sourceFiles.clear();
+    this.optimizations = [];
+    this.hasPreloadingStrategy = false;
+    this.hasLazyRoutes = false;
+    this.preloadingLocation = undefined;
+    this.lazyTargets.clear();
+
+    filePaths.forEach((filePath) => {
+      const sourceFile = this.loadSourceFile(filePath);
+      if (sourceFile) {
+        this.collectDeclarations(sourceFile, filePath);
+      }
+    });
+
+    // Without an explicit provideRouter/forRoot, treat unreferenced arrays as roots
+    let roots = this.declarations.filter((declaration) => declaration.isRoot);
+    if (roots.length === 0) {
+      roots = this.declarations.filter(
+        (declaration) => !this.isLazilyReferenced(declaration)
+      );
+    }
+
+    const routes: RouteNode[] = [];
+    roots.forEach((root) => {
+      routes.push(...this.buildRoutes(root.array, root.filePath, '', true, new Set()));
+    });
+
+    if (this.hasLazyRoutes && !this.hasPreloadingStrategy && this.preloadingLocation) {
+      this.optimizations.push({
+        type: 'lazy-loading',
+        description: 'Lazy routes are configured but no preloading strategy is set',
+        estimatedSizeReduction: 'No size change; faster navigation to lazy routes',
+        implementation:
+          'Add withPreloading(PreloadAllModules) to provideRouter, or preloadingStrategy to RouterModule.forRoot',
+        location: this.preloadingLocation,
+      });
+    }
+
+    return {
+      routes,
+      optimizations: this.optimizations,
+      hasPreloadingStrategy: this.hasPreloadingStrategy,
+      routeFiles: Array.from(new Set(this.declarations.map((d) => d.filePath))),
+    };
+  }
+
+  private loadSourceFile(filePath: string): ts.SourceFile | undefined {
+    if (this.sourceFiles.has(filePath)) {
+      return this.sourceFiles.get(filePath);
+    }
+
+    try {
+      const sourceCode = readFileSync(filePath, 'utf8');
+      if (!/Routes|Route\[\]|provideRouter|RouterModule|loadChildren|loadComponent/.test(sourceCode)) {
+        return undefined;
+      }
+      const sourceFile = ts.createSourceFile(
+        filePath,
+        sourceCode,
+        ts.ScriptTarget.Latest,
+        true
+      );
+      this.sourceFiles.set(filePath, sourceFile);
+      return sourceFile;
+    } catch (error) {
+      console.warn(
+        `Could not read route file ${filePath}:`,
+        error instanceof Error ? error.message : error
+      );
+      return undefined;
+    }
+  }
+
+  private collectDeclarations(sourceFile: ts.SourceFile, filePath: string): void {
+    if (this.declarations.some((declaration) => declaration.filePath === filePath)) {
+      return;
+    }
+
+    const rootNames = new Set<string>();
+
+    const visit = (node: ts.Node) => {
+      // const routes: Routes = [...]
+      if (
+        ts.isVariableDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.initializer &&
+        ts.isArrayLiteralExpression(node.initializer) &&
+        node.type &&
+        /^(Routes|Route\[\]|Array<Route>)$/.test(node.type.getText())
+      ) {
+        this.declarations.push({
+          name: node.name.text,
+          filePath,
+          sourceFile,
+          array: node.initializer,
+          isRoot: false,
+        });
+      }
+
+      // loadChildren: () => import('./feature/feature.routes')
+      if (
+        ts.isPropertyAssignment(node) &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === 'loadChildren'
+      ) {
+        const target = this.getDynamicImportTarget(node.initializer);
+        const resolved = target && this.resolveModulePath(filePath, target);
+        if (resolved) {
+          this.lazyTargets.add(resolved);
+        }
+      }
+
+      if (ts.isCallExpression(node)) {
+        const callee = node.expression.getText();
+        const [routesArg, ...rest] = node.arguments;
+        const isProvideRouter = callee === 'provideRouter';
+        const isForRoot = callee === 'RouterModule.forRoot';
+        const isForChild = callee === 'RouterModule.forChild';
+
+        if ((isProvideRouter || isForRoot || isForChild) && routesArg) {
+          if (ts.isArrayLiteralExpression(routesArg)) {
+            this.declarations.push({
+              filePath,
+              sourceFile,
+              array: routesArg,
+              isRoot: !isForChild,
+            });
+          } else if (ts.isIdentifier(routesArg) && !isForChild) {
+            rootNames.add(routesArg.text);
+          }
+        }
+
+        if (isProvideRouter || isForRoot) {
+          this.preloadingLocation = this.getLocation(node, sourceFile, filePath);
+          this.hasPreloadingStrategy ||= isProvideRouter
+            ? rest.some((feature) => /^withPreloading\s*\(/.test(feature.getText()))
+            : rest.some((options) => /preloadingStrategy\s*:/.test(options.getText()));
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    // provideRouter(routes) where routes is imported from another file
+    rootNames.forEach((name) => {
+      const local = this.declarations.find(
+        (declaration) => declaration.filePath === filePath && declaration.name === name
+      );
+      if (local) {
+        local.isRoot = true;
+        return;
+      }
+
+      const importedFrom = this.resolveImportedIdentifier(sourceFile, filePath, name);
+      const importedFile = importedFrom && this.loadSourceFile(importedFrom);
+      if (importedFile && importedFrom) {
+        this.collectDeclarations(importedFile, importedFrom);
+        this.declarations
+          .filter((declaration) => declaration.filePath === importedFrom && declaration.name === name)
+          .forEach((declaration) => (declaration.isRoot = true));
+      }
+    });
+  }
+
+  private buildRoutes(
+    array: ts.ArrayLiteralExpression,
+    filePath: string,
+    parentPath: string,
+    inInitialBundle: boolean,
+    visitedFiles: Set<string>
+  ): RouteNode[] {
+    const sourceFile = array.getSourceFile();
+    const routes: RouteNode[] = [];
+
+    array.elements.forEach((element) => {
+      if (ts.isSpreadElement(element) && ts.isIdentifier(element.expression)) {
+        const spread = this.findDeclarationByName(filePath, element.expression.text);
+        if (spread) {
+          routes.push(...this.buildRoutes(spread.array, spread.filePath, parentPath, inInitialBundle, visitedFiles));
+        }
+        return;
+      }
+      if (!ts.isObjectLiteralExpression(element)) return;
+
+      const props = this.getProperties(element);
+      const path = props.path && ts.isStringLiteralLike(props.path) ? props.path.text : '';
+      const fullPath = [parentPath, path].filter(Boolean).join('/');
+      const route: RouteNode = {
+        path,
+        fullPath: `/${fullPath}`,
+        loading: 'none',
+        inInitialBundle,
+        guards: GUARD_PROPERTIES.flatMap((key) => this.getIdentifiers(props[key])),
+        resolvers: props.resolve && ts.isObjectLiteralExpression(props.resolve)
+          ? props.resolve.properties
+              .filter(ts.isPropertyAssignment)
+              .map((prop) => prop.initializer.getText())
+          : [],
+        children: [],
+        location: this.getLocation(element, sourceFile, filePath),
+      };
+
+      if (props.redirectTo) {
+        route.loading = 'redirect';
+      } else if (props.component) {
+        route.loading = 'eager';
+        route.component = props.component.getText();
+      } else if (props.loadComponent || props.loadChildren) {
+        route.loading = 'lazy';
+        route.inInitialBundle = false;
+        this.hasLazyRoutes = true;
+        route.loadTarget = this.getDynamicImportTarget(props.loadComponent || props.loadChildren!);
+        if (props.loadComponent) {
+          route.component = this.getThenExportName(props.loadComponent);
+        }
+      }
+
+      if (props.children && ts.isArrayLiteralExpression(props.children)) {
+        route.children = this.buildRoutes(props.children, filePath, fullPath, inInitialBundle, visitedFiles);
+      }
+
+      // Follow loadChildren into the lazily loaded routes file
+      if (props.loadChildren && route.loadTarget) {
+        const target = this.resolveModulePath(filePath, route.loadTarget);
+        const exportName = this.getThenExportName(props.loadChildren);
+        if (target && !visitedFiles.has(target)) {
+          const targetFile = this.loadSourceFile(target);
+          if (targetFile) {
+            this.collectDeclarations(targetFile, target);
+            const lazyRoutes = this.declarations.filter(
+              (declaration) =>
+                declaration.filePath === target &&
+                (!exportName || !declaration.name || declaration.name === exportName)
+            );
+            lazyRoutes.forEach((declaration) => {
+              route.children.push(
+                ...this.buildRoutes(declaration.array, target, fullPath, false, new Set([...visitedFiles, target]))
+              );
+            });
+          }
+        }
+      }
+
+      this.checkRoute(route, filePath, sourceFile);
+      routes.push(route);
+    });
+
+    return routes;
+  }
+
+  private checkRoute(route: RouteNode, filePath: string, sourceFile: ts.SourceFile): void {
+    if (!route.inInitialBundle) return;
+
+    // Eagerly imported route components (the empty root path and wildcard are usually intentional)
+    if (route.loading === 'eager' && route.path !== '' && route.path !== '**') {
+      const componentFile =
+        route.component &&
+        this.resolveImportedIdentifier(sourceFile, filePath, route.component);
+      const measured = componentFile && this.bundleStats?.getFileSize(componentFile);
+      this.optimizations.push({
+        type: 'lazy-loading',
+        description: `Route '${route.fullPath}' imports ${route.component} eagerly`,
+        estimatedSizeReduction: measured
+          ? `${formatBytes(measured.initialBytes)} of component code in initial chunks (measured)`
+          : 'Moves the component and its dependencies out of the initial bundle',
+        implementation: `Use loadComponent: () => import('...').then(m => m.${route.component})`,
+        location: route.location,
+      });
+    }
+
+    // Feature areas whose child routes are all eager
+    const eagerDescendants = this.countEagerDescendants(route);
+    if (route.path && eagerDescendants >= 2) {
+      this.optimizations.push({
+        type: 'code-splitting',
+        description: `Feature area '${route.fullPath}' has ${eagerDescendants} eagerly loaded child routes`,
+        estimatedSizeReduction: 'Moves the whole feature area into its own lazy chunk',
+        implementation: `Move the child routes into a separate routes file and use loadChildren for '${route.path}'`,
+        location: route.location,
+      });
+    }
+
+    // Guards and resolvers live in the parent chunk even for lazy routes
+    [...route.guards, ...route.resolvers].forEach((name) => {
+      const heavyImports = this.findHeavyImports(sourceFile, filePath, name);
+      if (heavyImports.length > 0) {
+        const measuredBytes = heavyImports.reduce(
+          (sum, moduleName) =>
+            sum + (this.bundleStats?.getPackage(moduleName)?.initialBytes || 0),
+          0
+        );
+        this.optimizations.push({
+          type: 'code-splitting',
+          description: `Guard/resolver '${name}' on '${route.fullPath}' pulls ${heavyImports.join(', ')} into the initial bundle`,
+          estimatedSizeReduction: measuredBytes > 0
+            ? `${formatBytes(measuredBytes)} of ${heavyImports.join(', ')} in initial chunks (measured)`
+            : `Removes ${heavyImports.join(', ')} from the initial bundle`,
+          implementation: 'Keep guards and resolvers lightweight, or load the heavy dependency with a dynamic import()',
+          location: route.location,
+        });
+      }
+    });
+  }
+
+  private countEagerDescendants(route: RouteNode): number {
+    return route.children.reduce(
+      (count, child) =>
+        count +
+        (child.loading === 'eager' && child.inInitialBundle ? 1 : 0) +
+        this.countEagerDescendants(child),
+      0
+    );
+  }
+
+  private findHeavyImports(sourceFile: ts.SourceFile, filePath: string, name: string): string[] {
+    const identifier = name.replace(/\(.*$/s, '').trim();
+    const modulePath = this.resolveImportedIdentifier(sourceFile, filePath, identifier);
+    if (!modulePath) return [];
+
+    try {
+      const guardSource = ts.createSourceFile(
+        modulePath,
+        readFileSync(modulePath, 'utf8'),
+        ts.ScriptTarget.Latest,
+        true
+      );
+      return guardSource.statements
+        .filter(ts.isImportDeclaration)
+        .map((statement) => (statement.moduleSpecifier as ts.StringLiteral).text)
+        .filter((moduleName) =>
+          this.heavyLibraries.some(
+            (lib) => moduleName === lib || moduleName.startsWith(`${lib}/`)
+          )
+        );
+    } catch {
+      return [];
+    }
+  }
+
+  private getProperties(object: ts.ObjectLiteralExpression): Record<string, ts.Expression | undefined> {
+    const props: Record<string, ts.Expression | undefined> = {};
+    object.properties.forEach((prop) => {
+      if (ts.isPropertyAssignment(prop) && (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name))) {
+        props[prop.name.text] = prop.initializer;
+      } else if (ts.isShorthandPropertyAssignment(prop)) {
+        props[prop.name.text] = prop.name;
+      }
+    });
+    return props;
+  }
+
+  private getIdentifiers(expression?: ts.Expression): string[] {
+    if (!expression || !ts.isArrayLiteralExpression(expression)) return [];
+    return expression.elements
+      .filter((element) => !ts.isArrowFunction(element) && !ts.isFunctionExpression(element))
+      .map((element) => element.getText());
+  }
+
+  private getDynamicImportTarget(loader: ts.Node): string | undefined {
+    let target: string | undefined;
+    const visit = (node: ts.Node) => {
+      if (
+        !target &&
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments[0] &&
+        ts.isStringLiteralLike(node.arguments[0])
+      ) {
+        target = node.arguments[0].text;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(loader);
+    return target;
+  }
+
+  /** `m => m.ADMIN_ROUTES` -> 'ADMIN_ROUTES' */
+  private getThenExportName(loader: ts.Node): string | undefined {
+    const match = /\.then\s*\(\s*\(?\s*(\w+)\s*\)?\s*=>\s*\1\.(\w+)/.exec(loader.getText());
+    return match?.[2];
+  }
+
+  private findDeclarationByName(filePath: string, name: string): RoutesDeclaration | undefined {
+    return this.declarations.find(
+      (declaration) => declaration.filePath === filePath && declaration.name === name
+    );
+  }
+
+  private isLazilyReferenced(declaration: RoutesDeclaration): boolean {
+    return this.lazyTargets.has(declaration.filePath);
+  }
+
+  private resolveImportedIdentifier(
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    name: string
+  ): string | undefined {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+        continue;
+      }
+      const bindings = statement.importClause?.namedBindings;
+      const imported =
+        statement.importClause?.name?.text === name ||
+        (bindings &&
+          ts.isNamedImports(bindings) &&
+          bindings.elements.some((element) => element.name.text === name));
+      if (imported) {
+        return this.resolveModulePath(filePath, statement.moduleSpecifier.text);
+      }
+    }
+    return undefined;
+  }
+
+  private resolveModulePath(fromFile: string, specifier: string): string | undefined {
+    if (!specifier.startsWith('.')) return undefined;
+    const base = join(dirname(fromFile), specifier);
+    return [`${base}.ts`, join(base, 'index.ts'), base].find(
+      (candidate) => candidate.endsWith('.ts') && existsSync(candidate)
+    );
+  }
+
+  private getLocation(node: ts.Node, sourceFile: ts.SourceFile, filePath: string): CodeLocation {
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+    return {
+      file: filePath,
+      line: start.line + 1,
+      column: start.character + 1,
+      endLine: end.line + 1,
+      endColumn: end.character + 1,
+      snippet: node.getText().split('\n')[0],
+    };
+  }
+}
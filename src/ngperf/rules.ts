@@ -0,0 +1,340 @@
+import * as ts from 'typescript';
+import { resolve } from 'path';
+import type {
+  AngularClassKind,
+  Autofix,
+  ChangeDetectionProblemType,
+  CodeLocation,
+  ComponentMetadata,
+  SignalIssueType,
+  SubscriptionIssueType,
+  TemplateIssueType,
+  ZoneIssueType,
+} from './performance-analyzer';
+import type { TemplateAst } from './template-parser';
+import { isRecord } from './type-guards';
+
+/**
+ * Rule types
+ *
+ * Custom rules from local modules implement `check(context)`. The built-in
+ * checks are not separate rules: PerformanceAnalyzer runs them per category
+ * and exposes each finding type as a rule id, so they can be listed,
+ * configured and suppressed like custom rules. A finding is reported under
+ * its rule's category, with the rule id as its `type`.
+ */
+
+export type RuleCategory = 'change-detection' | 'template' | 'subscription' | 'signal' | 'zone';
+
+export type RuleSeverity = 'high' | 'medium' | 'low';
+
+/** Issue type of a finding from a custom rule */
+export type CustomRuleId = string & {};
+
+export interface RuleContext {
+  filePath: string;
+  className: string;
+  kind: AngularClassKind;
+  sourceFile: ts.SourceFile;
+  classDeclaration: ts.ClassDeclaration;
+  /** Decorator metadata, including the raw template text */
+  metadata: ComponentMetadata;
+  /** Parsed component template, inline or from templateUrl */
+  template?: { code: string; ast: TemplateAst; filePath: string };
+  /** Available in type-aware analysis (`--tsconfig`) */
+  typeChecker?: ts.TypeChecker;
+  getNodeLocation(node: ts.Node): CodeLocation;
+  /** Location of a range of `template.code` */
+  getTemplateLocation(start: number, end: number): CodeLocation;
+}
+
+export interface RuleFinding {
+  location: CodeLocation;
+  description: string;
+  fix: string;
+  /** Defaults to the rule's severity */
+  severity?: RuleSeverity;
+  estimatedImpact?: string;
+  autofix?: Autofix;
+}
+
+export interface Rule {
+  id: string;
+  category: RuleCategory;
+  /** Severity of findings that don't set their own */
+  severity: RuleSeverity;
+  description: string;
+  docsUrl?: string;
+  check(context: RuleContext): RuleFinding[];
+}
+
+export type BuiltInRuleId =
+  | ChangeDetectionProblemType
+  | TemplateIssueType
+  | SubscriptionIssueType
+  | SignalIssueType
+  | ZoneIssueType;
+
+export const RULES_DOCS_URL = 'https://github.com/eawebmaster20/ngperf#rules';
+
+const RULE_CATEGORIES: RuleCategory[] = ['change-detection', 'template', 'subscription', 'signal', 'zone'];
+const RULE_SEVERITIES: RuleSeverity[] = ['high', 'medium', 'low'];
+
+/**
+ * Built-in rules in the order they run. Severity is the default; many
+ * checks raise or lower it per finding.
+ */
+export const BUILT_IN_RULES: Record<
+  BuiltInRuleId,
+  { category: RuleCategory; severity: RuleSeverity; description: string }
+> = {
+  'missing-onpush': {
+    category: 'change-detection',
+    severity: 'high',
+    description: 'Components that would benefit from `ChangeDetectionStrategy.OnPush`',
+  },
+  'function-in-template': {
+    category: 'change-detection',
+    severity: 'medium',
+    description: 'Method calls in template bindings, re-run on every change detection',
+  },
+  'object-comparison': {
+    category: 'change-detection',
+    severity: 'medium',
+    description: 'Object comparisons in templates',
+  },
+  'unnecessary-computation': {
+    category: 'change-detection',
+    severity: 'medium',
+    description: 'Costly getters and long pipe chains evaluated on every change detection',
+  },
+  'impure-pipe': {
+    category: 'change-detection',
+    severity: 'medium',
+    description: 'Pipes declared with `pure: false`',
+  },
+  'expensive-pipe-transform': {
+    category: 'change-detection',
+    severity: 'low',
+    description: 'Pipes that sort, serialize or loop in `transform()`',
+  },
+  'onpush-stale-view': {
+    category: 'change-detection',
+    severity: 'high',
+    description: 'Updates an OnPush view would not render',
+  },
+  'missing-trackby': {
+    category: 'template',
+    severity: 'high',
+    description: '`*ngFor` and `@for` without a tracking function',
+  },
+  'suboptimal-trackby': {
+    category: 'template',
+    severity: 'medium',
+    description: 'Loops tracked by `$index` where items have ids',
+  },
+  'async-pipe-opportunity': {
+    category: 'template',
+    severity: 'medium',
+    description: 'Manually subscribed values that could use the async pipe',
+  },
+  'expensive-pipe': {
+    category: 'template',
+    severity: 'low',
+    description: 'Impure or costly pipes used in templates',
+  },
+  'large-ngfor': {
+    category: 'template',
+    severity: 'high',
+    description: 'Lists large enough to need virtual scrolling or pagination',
+  },
+  'image-missing-ngsrc': {
+    category: 'template',
+    severity: 'medium',
+    description: '`<img src>` instead of `NgOptimizedImage`',
+  },
+  'image-missing-dimensions': {
+    category: 'template',
+    severity: 'high',
+    description: '`ngSrc` without `width`/`height` or `fill`',
+  },
+  'image-missing-priority': {
+    category: 'template',
+    severity: 'medium',
+    description: 'Likely LCP images without `priority`',
+  },
+  'image-missing-lazy-loading': {
+    category: 'template',
+    severity: 'low',
+    description: 'Eager images below the fold or in loops',
+  },
+  'media-missing-lazy-loading': {
+    category: 'template',
+    severity: 'medium',
+    description: 'Eager `<iframe>` and `<video>` loading',
+  },
+  'defer-opportunity': {
+    category: 'template',
+    severity: 'medium',
+    description: 'Heavy child components worth wrapping in `@defer`',
+  },
+  'defer-missing-placeholder': {
+    category: 'template',
+    severity: 'low',
+    description: '`@defer` without `@placeholder`',
+  },
+  'defer-missing-loading': {
+    category: 'template',
+    severity: 'low',
+    description: '`@defer` without `@loading`',
+  },
+  'defer-immediate-trigger': {
+    category: 'template',
+    severity: 'medium',
+    description: '`@defer (on immediate)`, which defers nothing in practice',
+  },
+  'legacy-control-flow': {
+    category: 'template',
+    severity: 'low',
+    description: '`*ngIf`, `*ngFor` and `[ngSwitch]` with built-in block equivalents',
+  },
+  'manual-subscription': {
+    category: 'subscription',
+    severity: 'medium',
+    description: 'Subscriptions without cleanup',
+  },
+  'memory-leak': {
+    category: 'subscription',
+    severity: 'high',
+    description: 'Subscriptions, listeners, timers and observers that outlive the component',
+  },
+  'multiple-subscriptions': {
+    category: 'subscription',
+    severity: 'low',
+    description: 'Many manual subscriptions that could be combined',
+  },
+  'effect-writes-signal': {
+    category: 'signal',
+    severity: 'medium',
+    description: 'Effects that write signals',
+  },
+  'computed-non-signal-call': {
+    category: 'signal',
+    severity: 'medium',
+    description: '`computed()` reading non-signal state',
+  },
+  'signal-read-in-loop': {
+    category: 'signal',
+    severity: 'low',
+    description: 'Signals read on every iteration of a template loop',
+  },
+  'tosignal-missing-initial-value': {
+    category: 'signal',
+    severity: 'low',
+    description: '`toSignal()` without an initial value',
+  },
+  'subscription-to-signal': {
+    category: 'signal',
+    severity: 'low',
+    description: 'Subscriptions that only copy values into a field, which `toSignal()` could replace',
+  },
+  'zone-interval': {
+    category: 'zone',
+    severity: 'medium',
+    description: '`setInterval` inside the Angular zone',
+  },
+  'zone-animation-frame': {
+    category: 'zone',
+    severity: 'high',
+    description: '`requestAnimationFrame` loops inside the Angular zone',
+  },
+  'zone-hot-listener': {
+    category: 'zone',
+    severity: 'medium',
+    description: 'High-frequency event listeners inside the Angular zone',
+  },
+  'zone-websocket': {
+    category: 'zone',
+    severity: 'medium',
+    description: 'WebSocket message handlers inside the Angular zone',
+  },
+  'zone-third-party-init': {
+    category: 'zone',
+    severity: 'low',
+    description: 'Third-party widgets initialized inside the Angular zone',
+  },
+};
+
+/**
+ * Loads custom rules from local modules. A module exports a rule, an array
+ * of rules, or `{ rules }`, as a default or CommonJS export.
+ */
+export function loadRules(modulePaths: string[], baseDir: string = process.cwd()): Rule[] {
+  return modulePaths.flatMap((modulePath) => {
+    const resolvedPath = resolve(baseDir, modulePath);
+    let exported: unknown;
+    try {
+      exported = require(resolvedPath);
+    } catch (error) {
+      throw new Error(
+        `Could not load rules from ${resolvedPath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const value = isRecord(exported) && exported.default !== undefined ? exported.default : exported;
+    const rules: unknown[] = Array.isArray(value)
+      ? value
+      : isRecord(value) && Array.isArray(value.rules)
+        ? value.rules
+        : [value];
+    return rules.map((rule, index) => {
+      assertValidRule(rule, `rule #${index + 1} in ${resolvedPath}`);
+      return rule;
+    });
+  });
+}
+
+/**
+ * Checks what a rule's `check` returned. Custom rules are plain JavaScript,
+ * so nothing else guarantees the shape.
+ */
+export function assertValidFindings(findings: unknown): asserts findings is RuleFinding[] {
+  if (!Array.isArray(findings)) {
+    throw new Error('check(context) must return an array of findings');
+  }
+  findings.forEach((finding, index) => {
+    const location = isRecord(finding) ? finding.location : undefined;
+    if (
+      !isRecord(finding) ||
+      typeof finding.description !== 'string' ||
+      !isRecord(location) ||
+      typeof location.file !== 'string' ||
+      typeof location.line !== 'number'
+    ) {
+      throw new Error(
+        `finding #${index + 1} needs a description and a location with file and line`
+      );
+    }
+  });
+}
+
+function assertValidRule(rule: unknown, name: string): asserts rule is Rule {
+  const problem = validateRule(rule);
+  if (problem) {
+    throw new Error(`Invalid ${name}: ${problem}`);
+  }
+}
+
+function validateRule(rule: unknown): string | undefined {
+  if (!isRecord(rule)) return 'expected an object';
+  if (typeof rule.id !== 'string' || !rule.id) return 'missing id';
+  if (typeof rule.description !== 'string') return 'missing description';
+  if (!RULE_CATEGORIES.includes(rule.category as RuleCategory)) {
+    return `category must be one of ${RULE_CATEGORIES.join(', ')}`;
+  }
+  if (!RULE_SEVERITIES.includes(rule.severity as RuleSeverity)) {
+    return `severity must be one of ${RULE_SEVERITIES.join(', ')}`;
+  }
+  if (typeof rule.check !== 'function') return 'missing check(context) function';
+  return undefined;
+}
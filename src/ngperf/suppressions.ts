@@ -0,0 +1,111 @@
+/**
+ * Inline suppression comments
+ *
+ * `// ngperf-disable-next-line <rules> -- <reason>` silences the next line.
+ * `ngperf-disable <rules> -- <reason>` in a block comment silences the rest
+ * of the file, or up to a matching `ngperf-enable [rules]`. Templates use the
+ * same directives in `<!-- -->` comments. Rules are separated by commas or
+ * spaces, and a suppression without a reason is ignored.
+ */
+
+export interface Suppression {
+  filePath: string;
+  /** Position of the comment, 1-based */
+  line: number;
+  column: number;
+  directive: 'disable-next-line' | 'disable';
+  rules: string[];
+  reason: string;
+  /** Lines each rule is suppressed on, inclusive */
+  ranges: Array<{ rule: string; startLine: number; endLine: number }>;
+  /** Rules that suppressed at least one finding */
+  used: Set<string>;
+}
+
+export interface SuppressionProblem {
+  filePath: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+const DIRECTIVE_PATTERN =
+  /(\/\/|\/\*|<!--)[ \t]*ngperf-(disable-next-line|disable|enable)\b(.*?)(?=\*\/|-->|$)/gm;
+
+export function parseSuppressions(
+  text: string,
+  filePath: string
+): { suppressions: Suppression[]; problems: SuppressionProblem[] } {
+  const suppressions: Suppression[] = [];
+  const problems: SuppressionProblem[] = [];
+  // Block ranges waiting for their ngperf-enable
+  const open: Array<Suppression['ranges'][number]> = [];
+
+  for (const match of text.matchAll(DIRECTIVE_PATTERN)) {
+    const [, , directive, body] = match;
+    const before = text.slice(0, match.index);
+    const line = before.split('\n').length;
+    const column = match.index! - before.lastIndexOf('\n');
+
+    const separator = body.indexOf('--');
+    const rules = (separator === -1 ? body : body.slice(0, separator))
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    const reason = separator === -1 ? '' : body.slice(separator + 2).trim();
+
+    if (directive === 'enable') {
+      for (let index = open.length - 1; index >= 0; index--) {
+        if (rules.length === 0 || rules.includes(open[index].rule)) {
+          open[index].endLine = line;
+          open.splice(index, 1);
+        }
+      }
+      continue;
+    }
+
+    const problem =
+      rules.length === 0
+        ? `ngperf-${directive} needs the rules it suppresses`
+        : !reason
+          ? `ngperf-${directive} needs a reason after '--'`
+          : undefined;
+    if (problem) {
+      problems.push({ filePath, line, column, message: problem });
+      continue;
+    }
+
+    const ranges = rules.map((rule) =>
+      directive === 'disable-next-line'
+        ? { rule, startLine: line + 1, endLine: line + 1 }
+        : { rule, startLine: line, endLine: Infinity }
+    );
+    if (directive === 'disable') open.push(...ranges);
+    suppressions.push({
+      filePath,
+      line,
+      column,
+      directive: directive as Suppression['directive'],
+      rules,
+      reason,
+      ranges,
+      used: new Set(),
+    });
+  }
+
+  return { suppressions, problems };
+}
+
+/**
+ * Suppression covering a finding of `rule` that starts on `line`
+ */
+export function findSuppression(
+  suppressions: Suppression[],
+  rule: string,
+  line: number
+): Suppression | undefined {
+  return suppressions.find((suppression) =>
+    suppression.ranges.some(
+      (range) => range.rule === rule && line >= range.startLine && line <= range.endLine
+    )
+  );
+}
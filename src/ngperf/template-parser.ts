@@ -0,0 +1,786 @@
+/**
+ * Lightweight Angular template parser
+ *
+ * Produces an AST of elements, attributes, bindings, control-flow blocks and
+ * interpolations with exact source spans (offsets into the template string).
+ * It is intentionally tolerant: malformed markup is recorded in `errors`
+ * instead of throwing, so analysis can continue on partial templates.
+ */
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type TemplateNode =
+  | TemplateElement
+  | TemplateText
+  | TemplateBlock
+  | TemplateLetDeclaration
+  | TemplateComment;
+
+export type BindingKind =
+  | 'static'
+  | 'property'
+  | 'event'
+  | 'two-way'
+  | 'structural'
+  | 'reference'
+  | 'template-variable';
+
+export interface TemplateAttribute {
+  kind: BindingKind;
+  /** Attribute name without binding syntax, e.g. `ngIf` for `*ngIf` */
+  name: string;
+  /** Attribute name exactly as written, e.g. `[class.active]` */
+  rawName: string;
+  value: string;
+  span: SourceSpan;
+  valueSpan?: SourceSpan;
+  /** Interpolations found in static attribute values (`title="{{ x }}"`) */
+  interpolations: TemplateInterpolation[];
+}
+
+export interface TemplateElement {
+  kind: 'element';
+  name: string;
+  attributes: TemplateAttribute[];
+  children: TemplateNode[];
+  span: SourceSpan;
+  startTagSpan: SourceSpan;
+}
+
+export interface TemplateInterpolation {
+  expression: string;
+  span: SourceSpan;
+  expressionSpan: SourceSpan;
+}
+
+export interface TemplateText {
+  kind: 'text';
+  value: string;
+  span: SourceSpan;
+  interpolations: TemplateInterpolation[];
+}
+
+export interface TemplateBlock {
+  kind: 'block';
+  /** Block name, e.g. `if`, `else if`, `for`, `empty`, `switch`, `case`, `defer` */
+  name: string;
+  parameters: string;
+  parametersSpan?: SourceSpan;
+  children: TemplateNode[];
+  span: SourceSpan;
+}
+
+export interface TemplateLetDeclaration {
+  kind: 'let';
+  name: string;
+  value: string;
+  span: SourceSpan;
+  valueSpan: SourceSpan;
+}
+
+export interface TemplateComment {
+  kind: 'comment';
+  value: string;
+  span: SourceSpan;
+}
+
+export interface TemplateAst {
+  nodes: TemplateNode[];
+  errors: Array<{ message: string; span: SourceSpan }>;
+}
+
+export interface TemplateCallExpression {
+  /** Full receiver chain, e.g. `user.getName` */
+  name: string;
+  args: string[];
+  /** Offset of the call within the expression */
+  start: number;
+  end: number;
+}
+
+export interface TemplatePropertyRead {
+  /** Identifier read, without a leading `this.` */
+  name: string;
+  /** Offset of the read within the expression */
+  start: number;
+  end: number;
+}
+
+export interface TemplatePipeUsage {
+  name: string;
+  args: string[];
+  /** Offset of the pipe name within the expression */
+  start: number;
+  end: number;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+const BLOCK_NAMES = [
+  'else if', 'if', 'else', 'for', 'empty', 'switch', 'case', 'default',
+  'defer', 'placeholder', 'loading', 'error',
+];
+
+type OpenContainer = TemplateElement | TemplateBlock;
+
+export class TemplateParser {
+  private template = '';
+  private pos = 0;
+  private stack: OpenContainer[] = [];
+  private root: TemplateNode[] = [];
+  private errors: TemplateAst['errors'] = [];
+
+  public parse(template: string): TemplateAst {
+    this.template = template;
+    this.pos = 0;
+    this.stack = [];
+    this.root = [];
+    this.errors = [];
+
+    let textStart = 0;
+    const flushText = () => {
+      if (this.pos > textStart) {
+        this.addText(textStart, this.pos);
+      }
+    };
+
+    while (this.pos < this.template.length) {
+      const char = this.template[this.pos];
+
+      if (this.startsWith('{{')) {
+        // Interpolations are part of the surrounding text node
+        const close = this.template.indexOf('}}', this.pos + 2);
+        this.pos = close === -1 ? this.template.length : close + 2;
+        continue;
+      }
+
+      if (this.startsWith('<!--')) {
+        flushText();
+        this.parseComment();
+        textStart = this.pos;
+        continue;
+      }
+
+      if (this.startsWith('</')) {
+        flushText();
+        this.parseClosingTag();
+        textStart = this.pos;
+        continue;
+      }
+
+      if (char === '<' && /[a-zA-Z]/.test(this.template[this.pos + 1] || '')) {
+        flushText();
+        this.parseOpeningTag();
+        textStart = this.pos;
+        continue;
+      }
+
+      if (char === '@') {
+        const blockName = this.matchBlockName();
+        if (blockName) {
+          flushText();
+          if (blockName === 'let') {
+            this.parseLetDeclaration();
+          } else {
+            this.parseBlockStart(blockName);
+          }
+          textStart = this.pos;
+          continue;
+        }
+      }
+
+      if (char === '}' && this.hasOpenBlock()) {
+        flushText();
+        this.closeBlock();
+        textStart = this.pos;
+        continue;
+      }
+
+      this.pos++;
+    }
+
+    flushText();
+
+    this.stack.forEach((open) => {
+      if (open.kind === 'element') {
+        this.errors.push({
+          message: `Unclosed element <${open.name}>`,
+          span: open.startTagSpan,
+        });
+      } else {
+        this.errors.push({
+          message: `Unclosed block @${open.name}`,
+          span: { start: open.span.start, end: open.span.start + 1 },
+        });
+      }
+      open.span.end = this.template.length;
+    });
+
+    return { nodes: this.root, errors: this.errors };
+  }
+
+  private startsWith(value: string): boolean {
+    return this.template.startsWith(value, this.pos);
+  }
+
+  private append(node: TemplateNode): void {
+    const parent = this.stack[this.stack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      this.root.push(node);
+    }
+  }
+
+  private addText(start: number, end: number): void {
+    const value = this.template.substring(start, end);
+    this.append({
+      kind: 'text',
+      value,
+      span: { start, end },
+      interpolations: findInterpolations(value, start),
+    });
+  }
+
+  private parseComment(): void {
+    const start = this.pos;
+    const close = this.template.indexOf('-->', this.pos + 4);
+    const end = close === -1 ? this.template.length : close + 3;
+    this.append({
+      kind: 'comment',
+      value: this.template.substring(start + 4, close === -1 ? end : close),
+      span: { start, end },
+    });
+    this.pos = end;
+  }
+
+  private parseOpeningTag(): void {
+    const start = this.pos;
+    this.pos++; // <
+    const name = this.readWhile(/[^\s/>]/);
+    const attributes: TemplateAttribute[] = [];
+    let selfClosing = false;
+
+    while (this.pos < this.template.length) {
+      this.skipWhitespace();
+      if (this.startsWith('/>')) {
+        selfClosing = true;
+        this.pos += 2;
+        break;
+      }
+      if (this.template[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+      const attribute = this.parseAttribute();
+      if (attribute) {
+        attributes.push(attribute);
+      } else {
+        this.pos++;
+      }
+    }
+
+    const element: TemplateElement = {
+      kind: 'element',
+      name,
+      attributes,
+      children: [],
+      span: { start, end: this.pos },
+      startTagSpan: { start, end: this.pos },
+    };
+    this.append(element);
+
+    const lowerName = name.toLowerCase();
+    if (selfClosing || VOID_ELEMENTS.has(lowerName)) {
+      return;
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(lowerName)) {
+      const closeTag = `</${lowerName}`;
+      const close = this.template.toLowerCase().indexOf(closeTag, this.pos);
+      const closeEnd =
+        close === -1 ? this.template.length : this.template.indexOf('>', close) + 1;
+      this.pos = closeEnd > 0 ? closeEnd : this.template.length;
+      element.span.end = this.pos;
+      return;
+    }
+
+    this.stack.push(element);
+  }
+
+  private parseAttribute(): TemplateAttribute | undefined {
+    const start = this.pos;
+    const rawName = this.readAttributeName();
+    if (!rawName) {
+      return undefined;
+    }
+
+    let value = '';
+    let valueSpan: SourceSpan | undefined;
+    const afterName = this.pos;
+    this.skipWhitespace();
+
+    if (this.template[this.pos] === '=') {
+      this.pos++;
+      this.skipWhitespace();
+      const quote = this.template[this.pos];
+      if (quote === '"' || quote === "'") {
+        const close = this.template.indexOf(quote, this.pos + 1);
+        const end = close === -1 ? this.template.length : close;
+        valueSpan = { start: this.pos + 1, end };
+        value = this.template.substring(this.pos + 1, end);
+        this.pos = close === -1 ? end : close + 1;
+      } else {
+        valueSpan = { start: this.pos, end: this.pos };
+        value = this.readWhile(/[^\s>]/);
+        valueSpan.end = this.pos;
+      }
+    } else {
+      this.pos = afterName;
+    }
+
+    const { kind, name } = classifyAttribute(rawName);
+
+    return {
+      kind,
+      name,
+      rawName,
+      value,
+      span: { start, end: this.pos },
+      valueSpan,
+      interpolations:
+        kind === 'static' && valueSpan
+          ? findInterpolations(value, valueSpan.start)
+          : [],
+    };
+  }
+
+  private readAttributeName(): string {
+    const start = this.pos;
+    let depth = 0;
+    while (this.pos < this.template.length) {
+      const char = this.template[this.pos];
+      if (char === '[' || char === '(') depth++;
+      if (char === ']' || char === ')') depth--;
+      if (depth <= 0 && /[\s=>]/.test(char)) break;
+      if (depth <= 0 && char === '/' && this.template[this.pos + 1] === '>') break;
+      this.pos++;
+    }
+    return this.template.substring(start, this.pos);
+  }
+
+  private parseClosingTag(): void {
+    const start = this.pos;
+    this.pos += 2;
+    const name = this.readWhile(/[^\s>]/);
+    const close = this.template.indexOf('>', this.pos);
+    this.pos = close === -1 ? this.template.length : close + 1;
+
+    // Find the matching open element, but never close past an open block
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const open = this.stack[i];
+      if (open.kind === 'block') break;
+      if (open.name.toLowerCase() === name.toLowerCase()) {
+        this.stack.splice(i).forEach((unclosed, index) => {
+          unclosed.span.end = this.pos;
+          if (index > 0 && unclosed.kind === 'element') {
+            this.errors.push({
+              message: `Unclosed element <${unclosed.name}>`,
+              span: unclosed.startTagSpan,
+            });
+          }
+        });
+        return;
+      }
+    }
+
+    this.errors.push({
+      message: `Unexpected closing tag </${name}>`,
+      span: { start, end: this.pos },
+    });
+  }
+
+  private matchBlockName(): string | undefined {
+    const rest = this.template.substring(this.pos + 1, this.pos + 16);
+    if (/^let\s/.test(rest)) {
+      return 'let';
+    }
+    return BLOCK_NAMES.find((name) => {
+      const pattern = new RegExp(`^${name.replace(' ', '\\s+')}(?![\\w-])`);
+      return pattern.test(rest);
+    });
+  }
+
+  private parseBlockStart(name: string): void {
+    const start = this.pos;
+    const namePattern = new RegExp(`^@${name.replace(' ', '\\s+')}`);
+    const nameMatch = namePattern.exec(this.template.substring(start));
+    this.pos += nameMatch ? nameMatch[0].length : name.length + 1;
+    this.skipWhitespace();
+
+    let parameters = '';
+    let parametersSpan: SourceSpan | undefined;
+    if (this.template[this.pos] === '(') {
+      const close = this.findClosingParen(this.pos);
+      parametersSpan = { start: this.pos + 1, end: close };
+      parameters = this.template.substring(this.pos + 1, close);
+      this.pos = Math.min(close + 1, this.template.length);
+      this.skipWhitespace();
+    }
+
+    const block: TemplateBlock = {
+      kind: 'block',
+      name: name.replace(/\s+/g, ' '),
+      parameters,
+      parametersSpan,
+      children: [],
+      span: { start, end: this.pos },
+    };
+    this.append(block);
+
+    if (this.template[this.pos] === '{') {
+      this.pos++;
+      this.stack.push(block);
+    } else {
+      this.errors.push({
+        message: `Block @${block.name} is missing its body`,
+        span: { start, end: this.pos },
+      });
+    }
+  }
+
+  private parseLetDeclaration(): void {
+    const start = this.pos;
+    this.pos += 4; // @let
+    this.skipWhitespace();
+    const name = this.readWhile(/[\w$]/);
+    this.skipWhitespace();
+    if (this.template[this.pos] === '=') {
+      this.pos++;
+    }
+    this.skipWhitespace();
+    const valueStart = this.pos;
+    const close = this.findUnquoted(';', this.pos);
+    this.pos = close === -1 ? this.template.length : close + 1;
+    this.append({
+      kind: 'let',
+      name,
+      value: this.template.substring(valueStart, close === -1 ? this.pos : close).trim(),
+      span: { start, end: this.pos },
+      valueSpan: { start: valueStart, end: close === -1 ? this.pos : close },
+    });
+  }
+
+  private hasOpenBlock(): boolean {
+    return this.stack.some((open) => open.kind === 'block');
+  }
+
+  private closeBlock(): void {
+    this.pos++; // }
+    while (this.stack.length > 0) {
+      const open = this.stack.pop()!;
+      open.span.end = this.pos;
+      if (open.kind === 'block') {
+        return;
+      }
+      this.errors.push({
+        message: `Unclosed element <${open.name}>`,
+        span: open.startTagSpan,
+      });
+    }
+  }
+
+  private findClosingParen(openIndex: number): number {
+    let depth = 0;
+    let quote: string | undefined;
+    for (let i = openIndex; i < this.template.length; i++) {
+      const char = this.template[i];
+      if (quote) {
+        if (char === quote && this.template[i - 1] !== '\\') quote = undefined;
+        continue;
+      }
+      if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return this.template.length;
+  }
+
+  private findUnquoted(target: string, from: number): number {
+    let quote: string | undefined;
+    for (let i = from; i < this.template.length; i++) {
+      const char = this.template[i];
+      if (quote) {
+        if (char === quote && this.template[i - 1] !== '\\') quote = undefined;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === target) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.pos;
+    while (
+      this.pos < this.template.length &&
+      pattern.test(this.template[this.pos])
+    ) {
+      this.pos++;
+    }
+    return this.template.substring(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    this.readWhile(/\s/);
+  }
+}
+
+function classifyAttribute(rawName: string): { kind: BindingKind; name: string } {
+  if (rawName.startsWith('[(') && rawName.endsWith(')]')) {
+    return { kind: 'two-way', name: rawName.slice(2, -2) };
+  }
+  if (rawName.startsWith('[') && rawName.endsWith(']')) {
+    return { kind: 'property', name: rawName.slice(1, -1) };
+  }
+  if (rawName.startsWith('(') && rawName.endsWith(')')) {
+    return { kind: 'event', name: rawName.slice(1, -1) };
+  }
+  if (rawName.startsWith('*')) {
+    return { kind: 'structural', name: rawName.slice(1) };
+  }
+  if (rawName.startsWith('#')) {
+    return { kind: 'reference', name: rawName.slice(1) };
+  }
+  const prefixed: Array<[string, BindingKind]> = [
+    ['bindon-', 'two-way'],
+    ['bind-', 'property'],
+    ['on-', 'event'],
+    ['ref-', 'reference'],
+    ['let-', 'template-variable'],
+  ];
+  const match = prefixed.find(([prefix]) => rawName.startsWith(prefix));
+  if (match) {
+    return { kind: match[1], name: rawName.slice(match[0].length) };
+  }
+  return { kind: 'static', name: rawName };
+}
+
+function findInterpolations(text: string, offset: number): TemplateInterpolation[] {
+  const interpolations: TemplateInterpolation[] = [];
+  let index = text.indexOf('{{');
+
+  while (index !== -1) {
+    const close = text.indexOf('}}', index + 2);
+    if (close === -1) break;
+    const expression = text.substring(index + 2, close);
+    const leading = expression.length - expression.trimStart().length;
+    const trimmed = expression.trim();
+    const expressionStart = offset + index + 2 + leading;
+    interpolations.push({
+      expression: trimmed,
+      span: { start: offset + index, end: offset + close + 2 },
+      expressionSpan: { start: expressionStart, end: expressionStart + trimmed.length },
+    });
+    index = text.indexOf('{{', close + 2);
+  }
+
+  return interpolations;
+}
+
+/**
+ * Depth-first walk over template nodes. The callback receives the node and
+ * its ancestors, outermost first.
+ */
+export function walkTemplate(
+  nodes: TemplateNode[],
+  callback: (node: TemplateNode, ancestors: TemplateNode[]) => void,
+  ancestors: TemplateNode[] = []
+): void {
+  nodes.forEach((node) => {
+    callback(node, ancestors);
+    if (node.kind === 'element' || node.kind === 'block') {
+      walkTemplate(node.children, callback, [...ancestors, node]);
+    }
+  });
+}
+
+/**
+ * Finds function and method calls in a template expression, including calls
+ * with arguments. String literals are skipped and pipe names are not reported.
+ */
+export function findCallExpressions(expression: string): TemplateCallExpression[] {
+  const calls: TemplateCallExpression[] = [];
+  const masked = maskStrings(expression);
+  // `!` may precede a call (`!isHidden()`); a `.` means it is part of a chain
+  const regex = /(?:^|[^\w$.])((?:[A-Za-z_$][\w$]*\s*(?:\?\.|!?\.)\s*)*[A-Za-z_$][\w$]*)\s*\(/g;
+  let match;
+
+  while ((match = regex.exec(masked)) !== null) {
+    const name = match[1].replace(/\s+/g, '');
+    const start = match.index + match[0].indexOf(match[1]);
+    const openParen = match.index + match[0].length - 1;
+    const precedingPipe = /\|\s*$/.test(masked.substring(0, start));
+    if (precedingPipe) continue;
+
+    const close = findMatchingParen(masked, openParen);
+    calls.push({
+      name,
+      args: splitTopLevel(expression.substring(openParen + 1, close), ','),
+      start,
+      end: close + 1,
+    });
+  }
+
+  return calls;
+}
+
+const EXPRESSION_KEYWORDS = new Set([
+  'let', 'of', 'as', 'track', 'typeof', 'true', 'false', 'null', 'undefined', 'this',
+]);
+
+/**
+ * Finds top-level identifier reads (`total`, `this.total`) in a template
+ * expression. Calls, pipe names and members of other values are skipped.
+ */
+export function findPropertyReads(expression: string): TemplatePropertyRead[] {
+  const reads: TemplatePropertyRead[] = [];
+  const masked = maskStrings(expression);
+  const regex = /(?:^|[^\w$.])((?:this\s*\.\s*)?([A-Za-z_$][\w$]*))(?![\w$]|\s*\()/g;
+  let match;
+
+  while ((match = regex.exec(masked)) !== null) {
+    const start = match.index + match[0].indexOf(match[1]);
+    if (EXPRESSION_KEYWORDS.has(match[2]) || /\|\s*$/.test(masked.substring(0, start))) {
+      continue;
+    }
+    reads.push({ name: match[2], start, end: start + match[1].length });
+  }
+
+  return reads;
+}
+
+/**
+ * Splits an expression into its base expression and pipe segments
+ * (`value | date:'short' | uppercase` -> ['value', "date:'short'", 'uppercase']).
+ * Logical `||` operators are not treated as pipes.
+ */
+export function splitPipes(expression: string): string[] {
+  const masked = maskStrings(expression).replace(/\|\|/g, '\0\0');
+  const parts: string[] = [];
+  let depth = 0;
+  let last = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (char === '|' && depth === 0) {
+      parts.push(expression.substring(last, i).trim());
+      last = i + 1;
+    }
+  }
+  parts.push(expression.substring(last).trim());
+
+  return parts;
+}
+
+/**
+ * Finds pipe applications in an expression with the offset of each pipe name
+ * (`items | filterBy:query` -> { name: 'filterBy', args: ['query'], ... })
+ */
+export function findPipeUsages(expression: string): TemplatePipeUsage[] {
+  const usages: TemplatePipeUsage[] = [];
+  const masked = maskStrings(expression).replace(/\|\|/g, '\0\0');
+  let depth = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (char !== '|') continue;
+
+    const nameMatch = /^\s*([A-Za-z_$][\w$]*)/.exec(masked.substring(i + 1));
+    if (!nameMatch) continue;
+
+    const start = i + 1 + nameMatch[0].length - nameMatch[1].length;
+    // Arguments run until the next pipe or the end of the enclosing group
+    let end = start + nameMatch[1].length;
+    let argDepth = 0;
+    while (end < masked.length) {
+      const next = masked[end];
+      if ('([{'.includes(next)) argDepth++;
+      if (')]}'.includes(next)) {
+        if (argDepth === 0) break;
+        argDepth--;
+      }
+      if ((next === '|' || next === ';') && argDepth === 0) break;
+      end++;
+    }
+
+    const segment = expression.substring(start, end).trim();
+    usages.push({
+      name: nameMatch[1],
+      args: splitTopLevel(segment, ':').slice(1),
+      start,
+      end: start + segment.length,
+    });
+  }
+
+  return usages;
+}
+
+function maskStrings(expression: string): string {
+  return expression.replace(/(['"`])(?:\\.|(?!\1)[^\\])*\1/g, (literal) =>
+    literal[0] + ' '.repeat(literal.length - 2) + literal[0]
+  );
+}
+
+function findMatchingParen(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return text.length;
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const masked = maskStrings(text);
+  const parts: string[] = [];
+  let depth = 0;
+  let last = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (char === separator && depth === 0) {
+      parts.push(text.substring(last, i).trim());
+      last = i + 1;
+    }
+  }
+  const tail = text.substring(last).trim();
+  if (tail || parts.length > 0) {
+    parts.push(tail);
+  }
+
+  return parts;
+}
@@ -0,0 +1,178 @@
+/**
+ * Minimal line-based unified diff
+ *
+ * Used by the code-rewriting commands to preview changes (`--dry-run`)
+ * without depending on an external diff implementation.
+ */
+
+const CONTEXT_LINES = 3;
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+export function createUnifiedDiff(filePath: string, before: string, after: string): string {
+  if (before === after) return '';
+
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  const hunks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    // Find the next change and open a hunk around it
+    while (index < lines.length && lines[index].op === ' ') index++;
+    if (index >= lines.length) break;
+
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    // Extend while changes are closer than two contexts apart
+    let lastChange = index;
+    while (end < lines.length) {
+      if (lines[end].op !== ' ') {
+        lastChange = end;
+      } else if (end - lastChange > CONTEXT_LINES * 2) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1);
+
+    const oldStart = lines.slice(0, start).filter((line) => line.op !== '+').length + 1;
+    const newStart = lines.slice(0, start).filter((line) => line.op !== '-').length + 1;
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.op !== '+').length;
+    const newCount = hunk.filter((line) => line.op !== '-').length;
+
+    hunks.push(
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n` +
+        hunk.map((line) => `${line.op}${line.text}`).join('\n')
+    );
+    index = end;
+  }
+
+  return `--- a/${filePath}\n+++ b/${filePath}\n${hunks.join('\n')}\n`;
+}
+
+/**
+ * Shortest edit script by Myers' linear-space algorithm: split both ranges at
+ * the middle snake of an optimal path and diff the halves, so memory stays
+ * proportional to the input however large the files are.
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  diffRange(before, 0, before.length, after, 0, after.length, lines);
+
+  // Removals before additions within each run of changes, as diff(1) prints them
+  const sorted: DiffLine[] = [];
+  for (let start = 0; start < lines.length; ) {
+    let end = start;
+    while (end < lines.length && lines[end].op !== ' ') end++;
+    if (end === start) {
+      sorted.push(lines[start++]);
+      continue;
+    }
+    const run = lines.slice(start, end);
+    sorted.push(...run.filter((line) => line.op === '-'), ...run.filter((line) => line.op === '+'));
+    start = end;
+  }
+  return sorted;
+}
+
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  lines: DiffLine[]
+): void {
+  // Shared prefix and suffix
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    lines.push({ op: ' ', text: a[aStart++] });
+    bStart++;
+  }
+  let suffix = 0;
+  while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  if (aStart === aEnd) {
+    for (let j = bStart; j < bEnd; j++) lines.push({ op: '+', text: b[j] });
+  } else if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) lines.push({ op: '-', text: a[i] });
+  } else {
+    const [x, y, u, v] = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    diffRange(a, aStart, x, b, bStart, y, lines);
+    for (let i = x; i < u; i++) lines.push({ op: ' ', text: a[i] });
+    diffRange(a, u, aEnd, b, v, bEnd, lines);
+  }
+
+  for (let i = aEnd; i < aEnd + suffix; i++) lines.push({ op: ' ', text: a[i] });
+}
+
+/**
+ * Start and end of the middle snake, the diagonal run where the forward and
+ * reverse searches for a shortest edit script meet. Both ranges are
+ * non-empty and differ in their first and last lines.
+ */
+function findMiddleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number
+): [number, number, number, number] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x reached on each diagonal k = x - y, from the start and from the end
+  const forward = new Int32Array(2 * max + 3);
+  const reverse = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      const reverseK = delta - k;
+      if (odd && Math.abs(reverseK) <= d - 1 && x + reverse[offset + reverseK] >= n) {
+        return [aStart + startX, bStart + startY, aStart + x, bStart + y];
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && reverse[offset + k - 1] < reverse[offset + k + 1])
+          ? reverse[offset + k + 1]
+          : reverse[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      reverse[offset + k] = x;
+      const forwardK = delta - k;
+      if (!odd && Math.abs(forwardK) <= d && x + forward[offset + forwardK] >= n) {
+        return [aEnd - x, bEnd - y, aEnd - startX, bEnd - startY];
+      }
+    }
+  }
+
+  throw new Error('No middle snake found');
+}
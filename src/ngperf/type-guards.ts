@@ -0,0 +1,8 @@
+/**
+ * Type guards for values read from JSON files and user modules
+ */
+
+/** A plain object, not null or an array */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
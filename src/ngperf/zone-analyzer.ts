@@ -0,0 +1,487 @@
+import * as ts from 'typescript';
+import type { CodeLocation, ZoneChangeDetection, ZoneIssue, ZoneIssueType } from './performance-analyzer';
+
+/**
+ * Zone.js hot-path analyzer
+ *
+ * Every task Zone.js intercepts (timers, animation frames, DOM events,
+ * WebSocket messages) ends with an application-wide change detection pass.
+ * This finds high-frequency sources a component starts inside the Angular
+ * zone and says what the callback needs once it runs in
+ * `NgZone.runOutsideAngular`.
+ */
+
+// Events that fire many times per second while the user interacts
+const HOT_EVENTS = ['mousemove', 'pointermove', 'touchmove', 'scroll', 'wheel', 'drag', 'dragover'];
+const FREQUENT_EVENTS = ['resize', 'mouseover', 'mouseenter', 'mouseleave', 'keydown', 'keyup'];
+
+// Third-party widgets that install their own listeners, timers and animation loops
+const THIRD_PARTY_INITIALIZERS: Array<{ pattern: RegExp; library: string }> = [
+  { pattern: /^new (?:Chart|ChartJS)$/, library: 'Chart.js' },
+  { pattern: /^new ApexCharts$/, library: 'ApexCharts' },
+  { pattern: /^echarts\.init$/, library: 'ECharts' },
+  { pattern: /^Highcharts\.(?:chart|stockChart|mapChart|ganttChart)$/, library: 'Highcharts' },
+  { pattern: /^L\.map$/, library: 'Leaflet' },
+  { pattern: /^new (?:mapboxgl|maplibregl)\.Map$/, library: 'Mapbox GL' },
+  { pattern: /^new google\.maps\.Map$/, library: 'Google Maps' },
+  { pattern: /^new (?:ol\.Map|OlMap)$/, library: 'OpenLayers' },
+  { pattern: /^monaco\.editor\.create$/, library: 'Monaco Editor' },
+  { pattern: /^new (?:THREE\.)?WebGLRenderer$/, library: 'three.js' },
+];
+
+// Array methods that mutate view state in place
+const MUTATING_METHODS = ['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'set', 'delete', 'clear', 'add'];
+
+export class ZoneAnalyzer {
+  private componentClass!: ts.ClassDeclaration;
+  private signalMembers = new Set<string>();
+  /** Methods only ever started from inside `runOutsideAngular` */
+  private outsideMethods = new Set<string>();
+
+  constructor(private getLocation: (node: ts.Node) => CodeLocation) {}
+
+  public analyze(componentClass: ts.ClassDeclaration, signalMembers: Set<string>): ZoneIssue[] {
+    this.componentClass = componentClass;
+    this.signalMembers = signalMembers;
+    this.outsideMethods = this.collectOutsideMethods(componentClass);
+    const issues: ZoneIssue[] = [];
+
+    const visit = (node: ts.Node, inAfterViewInit: boolean) => {
+      if (this.isRunOutsideAngular(node)) return;
+      if (this.isClassMember(node)) {
+        const name = this.getMemberName(node);
+        if (name && this.outsideMethods.has(name)) return;
+        inAfterViewInit = name === 'ngAfterViewInit';
+      }
+
+      const issue = ts.isCallExpression(node)
+        ? this.checkTimer(node) || this.checkListener(node) || this.checkFromEvent(node)
+        : ts.isBinaryExpression(node)
+        ? this.checkOnMessage(node)
+        : undefined;
+      if (issue) {
+        issues.push(issue);
+      }
+      if (inAfterViewInit && (ts.isCallExpression(node) || ts.isNewExpression(node))) {
+        const init = this.checkThirdPartyInit(node);
+        if (init) issues.push(init);
+      }
+      ts.forEachChild(node, (child) => visit(child, inAfterViewInit));
+    };
+    visit(componentClass, false);
+
+    issues.push(...this.checkHostListeners(componentClass));
+    return issues;
+  }
+
+  private checkTimer(call: ts.CallExpression): ZoneIssue | undefined {
+    const callee = call.expression.getText().replace(/^(?:window|globalThis|self)\./, '');
+    if (callee !== 'setInterval' && callee !== 'requestAnimationFrame') return undefined;
+
+    const callback = call.arguments[0];
+    if (callee === 'requestAnimationFrame') {
+      // A loop re-scheduling itself only needs its first frame moved
+      const target = callback && this.getReferencedMember(callback);
+      if (target && target === this.getEnclosingMemberName(call)) return undefined;
+
+      return this.createIssue('zone-animation-frame', 'high', call, callback, true, {
+        description:
+          'requestAnimationFrame inside the Angular zone runs change detection for the whole application on every frame',
+        fix: 'Start the animation loop inside ngZone.runOutsideAngular(() => requestAnimationFrame(...))',
+      });
+    }
+
+    const delay = call.arguments[1];
+    const fast = !!delay && ts.isNumericLiteral(delay) && Number(delay.text) < 1000;
+    return this.createIssue('zone-interval', fast ? 'high' : 'medium', call, callback, fast, {
+      description: `setInterval${
+        delay ? ` every ${delay.getText()}ms` : ''
+      } triggers application-wide change detection on each tick`,
+      fix: 'Start the interval inside ngZone.runOutsideAngular() and bring results back only when they change',
+    });
+  }
+
+  /** `target.addEventListener(event, ...)` and `renderer.listen(target, event, ...)` */
+  private checkListener(call: ts.CallExpression): ZoneIssue | undefined {
+    if (!ts.isPropertyAccessExpression(call.expression)) return undefined;
+    const method = call.expression.name.text;
+    const target = call.expression.expression.getText();
+
+    let event: ts.Expression | undefined;
+    let handler: ts.Expression | undefined;
+    if (method === 'addEventListener') {
+      [event, handler] = call.arguments;
+    } else if (method === 'listen' && /renderer/i.test(target)) {
+      [, event, handler] = call.arguments;
+    } else {
+      return undefined;
+    }
+    if (!event || !ts.isStringLiteralLike(event)) return undefined;
+
+    if (event.text === 'message' && /socket|\bws\b/i.test(target)) {
+      return this.createWebSocketIssue(call, handler);
+    }
+    return this.createListenerIssue(call, event.text, handler, `${method}('${event.text}')`);
+  }
+
+  /** `fromEvent(target, 'scroll').subscribe(...)` */
+  private checkFromEvent(call: ts.CallExpression): ZoneIssue | undefined {
+    if (!ts.isIdentifier(call.expression) || call.expression.text !== 'fromEvent') {
+      return undefined;
+    }
+    const event = call.arguments[1];
+    if (!event || !ts.isStringLiteralLike(event)) return undefined;
+
+    return this.createListenerIssue(
+      call,
+      event.text,
+      this.getSubscribeCallback(call),
+      `fromEvent(..., '${event.text}')`
+    );
+  }
+
+  /** `socket.onmessage = ...` */
+  private checkOnMessage(expression: ts.BinaryExpression): ZoneIssue | undefined {
+    if (
+      expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken ||
+      !ts.isPropertyAccessExpression(expression.left) ||
+      expression.left.name.text !== 'onmessage'
+    ) {
+      return undefined;
+    }
+    return this.createWebSocketIssue(expression, expression.right);
+  }
+
+  private checkThirdPartyInit(node: ts.CallExpression | ts.NewExpression): ZoneIssue | undefined {
+    const callee = `${ts.isNewExpression(node) ? 'new ' : ''}${node.expression.getText()}`;
+    const match = THIRD_PARTY_INITIALIZERS.find(({ pattern }) => pattern.test(callee));
+    if (!match) return undefined;
+
+    // Library-internal events are what make this hot; only callbacks the
+    // component hands to the library can touch view state
+    const callbacks = (node.arguments || []).filter(
+      (arg) => ts.isFunctionLike(arg) || ts.isObjectLiteralExpression(arg)
+    );
+    const changeDetection =
+      callbacks.length > 0 ? this.getChangeDetectionNeed(callbacks, false) : 'none';
+    return {
+      type: 'zone-third-party-init',
+      severity: 'medium',
+      location: this.getLocation(node),
+      description: `${match.library} is initialized inside the Angular zone in ngAfterViewInit; its internal animations, timers and listeners each trigger change detection`,
+      fix: `Create the ${match.library} instance inside ngZone.runOutsideAngular()${this.getFollowUp(changeDetection)}`,
+      changeDetectionAfterMove: changeDetection,
+    };
+  }
+
+  /**
+   * `@HostListener('window:scroll')` always runs inside the zone; the only way
+   * out is replacing it with a listener registered outside Angular
+   */
+  private checkHostListeners(componentClass: ts.ClassDeclaration): ZoneIssue[] {
+    const issues: ZoneIssue[] = [];
+
+    componentClass.members.forEach((member) => {
+      const decorators = ts.canHaveDecorators(member) ? ts.getDecorators(member) || [] : [];
+      decorators.forEach((decorator) => {
+        if (
+          !ts.isCallExpression(decorator.expression) ||
+          decorator.expression.expression.getText() !== 'HostListener'
+        ) {
+          return;
+        }
+        const event = decorator.expression.arguments[0];
+        if (!event || !ts.isStringLiteralLike(event)) return;
+        const [, target, name] = /^(?:(\w+):)?([\w.]+)$/.exec(event.text) || [];
+        if (!name || !HOT_EVENTS.includes(name)) return;
+
+        const changeDetection = this.getChangeDetectionNeed([member], true);
+        issues.push({
+          type: 'zone-hot-listener',
+          severity: 'high',
+          location: this.getLocation(decorator),
+          description: `@HostListener('${event.text}') runs application-wide change detection on every ${name} event`,
+          fix: `Replace it with fromEvent(${
+            target || 'this.elementRef.nativeElement'
+          }, '${name}') subscribed inside ngZone.runOutsideAngular()${this.getFollowUp(changeDetection)}`,
+          changeDetectionAfterMove: changeDetection,
+        });
+      });
+    });
+
+    return issues;
+  }
+
+  private createListenerIssue(
+    node: ts.Node,
+    event: string,
+    handler: ts.Expression | undefined,
+    source: string
+  ): ZoneIssue | undefined {
+    const hot = HOT_EVENTS.includes(event);
+    if (!hot && !FREQUENT_EVENTS.includes(event)) return undefined;
+
+    return this.createIssue('zone-hot-listener', hot ? 'high' : 'medium', node, handler, hot, {
+      description: `${source} listener runs application-wide change detection on every ${event} event`,
+      fix: 'Register the listener inside ngZone.runOutsideAngular()',
+    });
+  }
+
+  private createWebSocketIssue(node: ts.Node, handler: ts.Expression | undefined): ZoneIssue {
+    return this.createIssue('zone-websocket', 'medium', node, handler, false, {
+      description:
+        'WebSocket messages handled inside the Angular zone trigger change detection for every message',
+      fix: 'Open the socket inside ngZone.runOutsideAngular() and re-enter only for messages that change the view',
+    });
+  }
+
+  private createIssue(
+    type: ZoneIssueType,
+    severity: ZoneIssue['severity'],
+    node: ts.Node,
+    callback: ts.Expression | undefined,
+    highFrequency: boolean,
+    text: { description: string; fix: string }
+  ): ZoneIssue {
+    const changeDetection = this.getChangeDetectionNeed(callback ? [callback] : [], highFrequency);
+    return {
+      type,
+      severity,
+      location: this.getLocation(node),
+      description: text.description,
+      fix: `${text.fix}${this.getFollowUp(changeDetection)}`,
+      changeDetectionAfterMove: changeDetection,
+    };
+  }
+
+  private getFollowUp(changeDetection: ZoneChangeDetection): string {
+    switch (changeDetection) {
+      case 'detectChanges':
+        return '; the callback updates template state, so call cdr.detectChanges() to refresh only this view';
+      case 'markForCheck':
+        return '; the callback updates template state, so call cdr.markForCheck() (or re-enter with ngZone.run()) afterwards';
+      default:
+        return '; no change detection call is needed because the callback only touches the DOM or signals';
+    }
+  }
+
+  /**
+   * What a callback needs after leaving the zone: nothing when it only
+   * touches the DOM or signals (signals schedule their own refresh),
+   * otherwise a local `detectChanges` for per-frame work and `markForCheck`
+   * for everything else. Unresolvable callbacks are assumed to change state.
+   */
+  private getChangeDetectionNeed(roots: ts.Node[], highFrequency: boolean): ZoneChangeDetection {
+    let writesState = false;
+    let resolved = roots.length > 0;
+    const visited = new Set<string>();
+
+    const visitMember = (name: string) => {
+      const declaration = this.findMember(name);
+      if (declaration && !visited.has(name)) {
+        visited.add(name);
+        visit(declaration);
+      }
+      return !!declaration;
+    };
+    const visit = (node: ts.Node) => {
+      if (writesState) return;
+      if (isViewStateWrite(node, this.signalMembers)) {
+        writesState = true;
+        return;
+      }
+      // Helper methods called from the callback
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.expression.kind === ts.SyntaxKind.ThisKeyword
+      ) {
+        visitMember(node.expression.name.text);
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    roots.forEach((root) => {
+      // Handler references such as `this.onScroll` or `this.onScroll.bind(this)`
+      const member = ts.isExpression(root) ? this.getReferencedMember(root) : undefined;
+      if (member) {
+        resolved = visitMember(member) && resolved;
+      } else if (ts.isFunctionLike(root) || ts.isClassElement(root) || ts.isObjectLiteralExpression(root)) {
+        visit(root);
+      } else if (ts.isIdentifier(root) || ts.isPropertyAccessExpression(root)) {
+        resolved = false;
+      } else {
+        visit(root);
+      }
+    });
+
+    if (!writesState && resolved) return 'none';
+    return highFrequency ? 'detectChanges' : 'markForCheck';
+  }
+
+  /** Member referenced by `this.x`, `this.x.bind(this)` or `() => this.x()` */
+  private getReferencedMember(expression: ts.Expression): string | undefined {
+    let current = expression;
+    if (
+      ts.isCallExpression(current) &&
+      ts.isPropertyAccessExpression(current.expression) &&
+      current.expression.name.text === 'bind'
+    ) {
+      current = current.expression.expression;
+    }
+    if (
+      ts.isArrowFunction(current) &&
+      ts.isCallExpression(current.body) &&
+      current.body.arguments.length === 0
+    ) {
+      current = current.body.expression;
+    }
+    if (
+      ts.isPropertyAccessExpression(current) &&
+      current.expression.kind === ts.SyntaxKind.ThisKeyword
+    ) {
+      return current.name.text;
+    }
+    return undefined;
+  }
+
+  /** First argument of the `.subscribe()` ending an observable chain */
+  private getSubscribeCallback(call: ts.CallExpression): ts.Expression | undefined {
+    let current: ts.Node = call;
+    while (
+      ts.isPropertyAccessExpression(current.parent) ||
+      (ts.isCallExpression(current.parent) && current.parent.expression === current)
+    ) {
+      current = current.parent;
+      if (
+        ts.isCallExpression(current) &&
+        ts.isPropertyAccessExpression(current.expression) &&
+        current.expression.name.text === 'subscribe'
+      ) {
+        return current.arguments[0];
+      }
+    }
+    return undefined;
+  }
+
+  private collectOutsideMethods(componentClass: ts.ClassDeclaration): Set<string> {
+    const methods = new Set<string>();
+    const visit = (node: ts.Node) => {
+      if (this.isRunOutsideAngular(node)) {
+        const collect = (inner: ts.Node) => {
+          if (
+            ts.isCallExpression(inner) &&
+            ts.isPropertyAccessExpression(inner.expression) &&
+            inner.expression.expression.kind === ts.SyntaxKind.ThisKeyword
+          ) {
+            methods.add(inner.expression.name.text);
+          }
+          ts.forEachChild(inner, collect);
+        };
+        collect(node);
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(componentClass);
+    return methods;
+  }
+
+  private isRunOutsideAngular(node: ts.Node): boolean {
+    return (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'runOutsideAngular'
+    );
+  }
+
+  private isClassMember(node: ts.Node): node is ts.ClassElement {
+    return ts.isClassElement(node) && node.parent === this.componentClass;
+  }
+
+  private getMemberName(member: ts.ClassElement): string | undefined {
+    return member.name && ts.isIdentifier(member.name) ? member.name.text : undefined;
+  }
+
+  private getEnclosingMemberName(node: ts.Node): string | undefined {
+    let current: ts.Node | undefined = node;
+    while (current && !this.isClassMember(current)) {
+      current = current.parent;
+    }
+    return current ? this.getMemberName(current as ts.ClassElement) : undefined;
+  }
+
+  private findMember(name: string): ts.ClassElement | undefined {
+    return this.componentClass.members.find((member) => this.getMemberName(member) === name);
+  }
+}
+
+/**
+ * Writes to non-signal component state the template could read: assignments,
+ * increments and in-place mutations of `this.<member>`. Direct DOM writes are
+ * not view state.
+ */
+export function isViewStateWrite(node: ts.Node, signalMembers: Set<string>): boolean {
+  let target: ts.Expression | undefined;
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+    node.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+  ) {
+    target = node.left;
+  } else if (
+    (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+    (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)
+  ) {
+    target = node.operand;
+  } else if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    MUTATING_METHODS.includes(node.expression.name.text)
+  ) {
+    target = node.expression.expression;
+  }
+  if (!target) return false;
+
+  const text = target.getText();
+  if (/nativeElement|\.style\b|\.classList\b|\.textContent\b|\.innerHTML\b/.test(text)) {
+    return false;
+  }
+  const match = /^this\.(\w+)/.exec(text);
+  return !!match && !signalMembers.has(match[1]);
+}
+
+/**
+ * Object changed in place by a node, without replacing the reference:
+ * `obj.push(x)`, `obj.key = x`, `obj[i] = x` and `delete obj.key` all
+ * return `obj`
+ */
+export function getMutatedObject(node: ts.Node): ts.Expression | undefined {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    MUTATING_METHODS.includes(node.expression.name.text)
+  ) {
+    return node.expression.expression;
+  }
+
+  let target: ts.Expression | undefined;
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+    node.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+  ) {
+    target = node.left;
+  } else if (ts.isDeleteExpression(node)) {
+    target = node.expression;
+  } else if (
+    (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+    (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)
+  ) {
+    target = node.operand;
+  }
+  if (target && (ts.isPropertyAccessExpression(target) || ts.isElementAccessExpression(target))) {
+    return target.expression;
+  }
+  return undefined;
+}
@@ -0,0 +1,206 @@
+import * as ts from 'typescript';
+import type { CodeLocation, ZonelessBlocker } from './performance-analyzer';
+import { isViewStateWrite } from './zone-analyzer';
+
+/**
+ * Zoneless readiness analyzer
+ *
+ * Without Zone.js, Angular only refreshes a view after a notification:
+ * template events, `markForCheck()`, signal writes or the async pipe. This
+ * finds code in a class that relies on Zone.js to notice changes for it.
+ */
+
+// Scheduling APIs whose callbacks run as a separate task
+const ASYNC_SCHEDULERS = ['setTimeout', 'setInterval', 'queueMicrotask', 'requestAnimationFrame', 'requestIdleCallback'];
+const PROMISE_CALLBACKS = ['then', 'catch', 'finally'];
+const ZONE_STABILITY_EVENTS = ['onStable', 'onMicrotaskEmpty', 'onUnstable', 'isStable'];
+
+export interface AsyncStateMutation {
+  /** First write in the callback */
+  location: CodeLocation;
+  /** Human-readable callback kind, e.g. `a setTimeout callback` */
+  source: string;
+  /** Plain fields written, as `this.<name>` */
+  fields: string[];
+}
+
+export class ZonelessAnalyzer {
+  constructor(private getLocation: (node: ts.Node) => CodeLocation) {}
+
+  public analyze(componentClass: ts.ClassDeclaration, signalMembers: Set<string>): ZonelessBlocker[] {
+    const blockers: ZonelessBlocker[] = [];
+
+    const visit = (node: ts.Node) => {
+      const blocker = this.checkZoneStability(node) || this.checkApplicationTick(node);
+      if (blocker) {
+        blockers.push(blocker);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(componentClass);
+
+    this.findAsyncStateMutations(componentClass, signalMembers).forEach(({ location, source, fields }) => {
+      const list = fields.join(', ');
+      blockers.push({
+        type: 'async-state-mutation',
+        severity: 'high',
+        location,
+        description: `${list} ${fields.length > 1 ? 'are' : 'is'} updated in ${source} without a signal or markForCheck(), so the view would not refresh without Zone.js`,
+        fix: `Turn ${list} into ${fields.length > 1 ? 'signals' : 'a signal'}, or call cdr.markForCheck() after the update`,
+      });
+    });
+
+    return blockers;
+  }
+
+  /**
+   * Plain fields written from callbacks that run as a separate task, grouped
+   * per callback. Callbacks that call markForCheck()/detectChanges() are skipped.
+   */
+  public findAsyncStateMutations(
+    componentClass: ts.ClassDeclaration,
+    signalMembers: Set<string>
+  ): AsyncStateMutation[] {
+    const mutations = new Map<ts.Node, { source: string; fields: Set<string>; first: ts.Node }>();
+
+    const visit = (node: ts.Node) => {
+      if (isViewStateWrite(node, signalMembers)) {
+        const context = this.getAsyncContext(node);
+        if (context && !this.notifiesAngular(context.callback)) {
+          const entry = mutations.get(context.callback) || {
+            source: context.source,
+            fields: new Set<string>(),
+            first: node,
+          };
+          entry.fields.add(`this.${/this\.(\w+)/.exec(node.getText())![1]}`);
+          mutations.set(context.callback, entry);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(componentClass);
+
+    return Array.from(mutations.values()).map(({ source, fields, first }) => ({
+      location: this.getLocation(first),
+      source,
+      fields: Array.from(fields),
+    }));
+  }
+
+  /** `zone.onStable.subscribe(...)` and friends never emit without Zone.js */
+  private checkZoneStability(node: ts.Node): ZonelessBlocker | undefined {
+    if (
+      !ts.isPropertyAccessExpression(node) ||
+      !ZONE_STABILITY_EVENTS.includes(node.name.text) ||
+      !/zone/i.test(node.expression.getText())
+    ) {
+      return undefined;
+    }
+
+    return {
+      type: 'zone-stability',
+      severity: 'high',
+      location: this.getLocation(node),
+      description: `NgZone.${node.name.text} is never emitted without Zone.js`,
+      fix:
+        node.name.text === 'onStable' || node.name.text === 'onMicrotaskEmpty'
+          ? 'Use afterNextRender() or afterRender() to run code after the view has been updated'
+          : 'Use ApplicationRef.whenStable() or PendingTasks to track outstanding work',
+    };
+  }
+
+  /** `appRef.tick()` refreshes the whole application by hand */
+  private checkApplicationTick(node: ts.Node): ZonelessBlocker | undefined {
+    if (
+      !ts.isCallExpression(node) ||
+      !ts.isPropertyAccessExpression(node.expression) ||
+      node.expression.name.text !== 'tick' ||
+      !/app(?:lication)?Ref/i.test(node.expression.expression.getText())
+    ) {
+      return undefined;
+    }
+
+    return {
+      type: 'application-tick',
+      severity: 'medium',
+      location: this.getLocation(node),
+      description:
+        'ApplicationRef.tick() is used to force a global refresh, which usually works around state Angular is not notified about',
+      fix: 'Update the state through signals or call markForCheck() on the affected component instead',
+    };
+  }
+
+  /**
+   * Nearest enclosing function that runs as a separate task: scheduler and
+   * promise callbacks, subscribe handlers, and async functions after their
+   * first `await`
+   */
+  private getAsyncContext(node: ts.Node): { callback: ts.Node; source: string } | undefined {
+    let current: ts.Node | undefined = node.parent;
+    while (current && !ts.isClassDeclaration(current)) {
+      if (ts.isFunctionLike(current)) {
+        const source = this.getCallbackSource(current);
+        if (source) return { callback: current, source };
+
+        const body = (current as ts.FunctionLikeDeclaration).body;
+        if (body && this.hasAwaitBefore(body, node.getStart())) {
+          return { callback: current, source: 'an async function after await' };
+        }
+      }
+      current = current.parent;
+    }
+    return undefined;
+  }
+
+  private getCallbackSource(fn: ts.Node): string | undefined {
+    let argument: ts.Node = fn;
+    // subscribe({ next: (value) => ... })
+    if (
+      ts.isPropertyAssignment(fn.parent) &&
+      ts.isIdentifier(fn.parent.name) &&
+      fn.parent.name.text === 'next' &&
+      ts.isObjectLiteralExpression(fn.parent.parent)
+    ) {
+      argument = fn.parent.parent;
+    } else if (ts.isMethodDeclaration(fn) && ts.isObjectLiteralExpression(fn.parent)) {
+      argument = fn.parent;
+    }
+
+    const call = argument.parent;
+    if (!call || !ts.isCallExpression(call) || !call.arguments.includes(argument as ts.Expression)) {
+      return undefined;
+    }
+
+    const callee = call.expression.getText().replace(/^(?:window|globalThis|self)\./, '');
+    if (ASYNC_SCHEDULERS.includes(callee)) {
+      return `a ${callee} callback`;
+    }
+    if (ts.isPropertyAccessExpression(call.expression)) {
+      const method = call.expression.name.text;
+      if (PROMISE_CALLBACKS.includes(method)) return `a promise .${method}() callback`;
+      if (method === 'subscribe') return 'a subscribe callback';
+    }
+    return undefined;
+  }
+
+  private hasAwaitBefore(body: ts.Node, position: number): boolean {
+    let found = false;
+    const visit = (node: ts.Node) => {
+      if (found || node.getStart() >= position) return;
+      // Awaits in nested functions don't suspend this one
+      if (ts.isFunctionLike(node)) return;
+      if (ts.isAwaitExpression(node) && node.getEnd() <= position) {
+        found = true;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(body, visit);
+    return found;
+  }
+
+  /** The callback notifies Angular itself */
+  private notifiesAngular(callback: ts.Node): boolean {
+    return /\.(?:markForCheck|detectChanges)\s*\(/.test(callback.getText());
+  }
+}
@@ -53,7 +53,9 @@ async function quickStartDemo() {
       worstComponents.forEach((comp, index) => {
         const issueCount = comp.changeDetectionIssues.length + 
                           comp.templateIssues.length + 
-                          comp.subscriptionIssues.length;
+                          comp.subscriptionIssues.length +
+                          comp.signalIssues.length +
+                          comp.zoneIssues.length;
         console.log(`   ${index + 1}. ${comp.componentName} (Score: ${comp.performanceScore}/100, ${issueCount} issues)`);
       });
       console.log('');